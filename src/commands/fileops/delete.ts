@@ -0,0 +1,426 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import { Messages, Org } from '@salesforce/core';
+import { AxiosError } from 'axios';
+import { Parser } from 'json2csv';
+import { SaveResult, deleteRecords, downloadToFile, queryChecksums } from '../../shared/contentVersions.js';
+import { RetryOptions, withRetry } from '../../shared/retry.js';
+import { Concurrency, LimitFunction, createLimit, parseConcurrency } from '../../shared/adaptiveLimit.js';
+import { ExportManifest } from '../../shared/exportManifest.js';
+import { withoutErrorColumns } from '../../shared/errorFile.js';
+import { idKey, inChunks, quote, readCsv } from '../../shared/records.js';
+import { saveWithRetry } from '../../shared/uploads.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('@neatflow/fileops', 'fileops.delete');
+const DELETE_CHUNK_SIZE = 200; // sObject collections api can delete max 200 records per call
+const MAX_CONCURRENCY = 10;
+const CONTENT_VERSION_PREFIX = '068';
+const CONTENT_DOCUMENT_PREFIX = '069';
+
+type ContentDocument = {
+  Id: string;
+  Title: string;
+  FileExtension: string | null;
+  LatestPublishedVersionId: string;
+};
+
+/**
+ * A document to delete, with the input row that named it and the size of all of its versions.
+ */
+type PlannedDeletion = {
+  row: Record<string, string>;
+  id: string;
+  document: ContentDocument;
+  bytes: number;
+};
+
+export type DeleteResult = {
+  success: boolean;
+  id: string;
+  contentDocumentId?: string;
+  title?: string;
+  error?: string;
+  statusText?: string;
+  attempts?: number;
+};
+
+// a row whose document was not deleted, written to the error file with its input columns
+type FailedRow = {
+  row: Record<string, string>;
+  result: DeleteResult;
+};
+
+export type FileDeleteResult = {
+  total: number;
+  deleted: number;
+  failed: number;
+  totalBytes: number;
+  results: DeleteResult[];
+};
+
+export default class FileDelete extends SfCommand<FileDeleteResult> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    file: Flags.file({
+      summary: messages.getMessage('flags.file.summary'),
+      description: messages.getMessage('flags.file.description'),
+      char: 'f',
+      exists: true,
+      exactlyOne: ['file', 'where'],
+    }),
+    where: Flags.string({
+      summary: messages.getMessage('flags.where.summary'),
+      description: messages.getMessage('flags.where.description'),
+      char: 'w',
+      exactlyOne: ['file', 'where'],
+    }),
+    id: Flags.string({
+      summary: messages.getMessage('flags.id.summary'),
+      char: 'i',
+      dependsOn: ['file'],
+    }),
+    'dry-run': Flags.boolean({
+      summary: messages.getMessage('flags.dry-run.summary'),
+      description: messages.getMessage('flags.dry-run.description'),
+    }),
+    'no-prompt': Flags.boolean({
+      summary: messages.getMessage('flags.no-prompt.summary'),
+      char: 'p',
+    }),
+    'backup-dir': Flags.directory({
+      summary: messages.getMessage('flags.backup-dir.summary'),
+      description: messages.getMessage('flags.backup-dir.description'),
+      char: 'b',
+    }),
+    concurrency: Flags.custom<Concurrency>({
+      summary: messages.getMessage('flags.concurrency.summary'),
+      description: messages.getMessage('flags.concurrency.description'),
+      char: 'c',
+      default: 3,
+      parse: parseConcurrency(MAX_CONCURRENCY),
+    })(),
+    'max-retries': Flags.integer({
+      summary: messages.getMessage('flags.max-retries.summary'),
+      default: 3,
+      min: 0,
+      max: 10,
+    }),
+    'error-file': Flags.file({
+      summary: messages.getMessage('flags.error-file.summary'),
+    }),
+    'target-org': Flags.requiredOrg(),
+    'api-version': Flags.orgApiVersion(),
+  };
+
+  protected static requiresUsername = true;
+  private targetOrg!: Org;
+  private apiVersion?: string;
+  private retryOptions: RetryOptions = { maxRetries: 0 };
+  private results: DeleteResult[] = [];
+  private errLog: FailedRow[] = [];
+  private deletedBytes = 0;
+  private processed = 0;
+
+  private static describe({ id, document }: PlannedDeletion): Omit<DeleteResult, 'success'> {
+    return { id, contentDocumentId: document.Id, title: document.Title };
+  }
+
+  public async run(): Promise<FileDeleteResult> {
+    const { flags } = await this.parse(FileDelete);
+    if (this.jsonEnabled() && !flags['dry-run'] && !flags['no-prompt']) {
+      // the confirmation would wait for an answer that a script reading the json output cannot give
+      throw messages.createError('error.promptWithJson');
+    }
+    this.targetOrg = flags['target-org'];
+    this.apiVersion = flags['api-version'];
+    this.retryOptions = {
+      maxRetries: flags['max-retries'],
+      onRetry: (error, attempt, delayMs) =>
+        this.debug(`Retrying after ${delayMs}ms, attempt ${attempt} failed: ${(error as Error).message}`),
+    };
+    const conn = this.targetOrg.getConnection(this.apiVersion);
+    const limit = createLimit(conn, flags.concurrency, MAX_CONCURRENCY);
+
+    const rows = flags.file ? await readCsv(flags.file) : await this.queryDocuments(flags.where as string);
+    const idField = flags.id ?? 'Id';
+    const planned = await this.planDeletions(rows, idField);
+    const totalBytes = planned.reduce((total, { bytes }) => total + bytes, 0);
+
+    this.log(`Documents to delete: ${planned.length}, Total size: ${totalBytes} bytes`);
+    if (this.errLog.length > 0) {
+      this.warn(`${this.errLog.length} row(s) do not name a file in the org:`);
+      this.errLog.forEach(({ result }) => this.log(`  ${result.id || '(empty)'}: ${result.error ?? ''}`));
+    }
+
+    if (flags['dry-run']) {
+      this.log('Dry run, nothing was deleted.');
+      return this.summarize(rows.length, totalBytes);
+    }
+    if (planned.length === 0) {
+      await this.writeFailuresToCsv(flags['error-file']);
+      return this.summarize(rows.length, totalBytes);
+    }
+    if (
+      !flags['no-prompt'] &&
+      !(await this.confirm({ message: messages.getMessage('prompt.confirm', [planned.length, totalBytes]) }))
+    ) {
+      this.log('Nothing was deleted.');
+      return this.summarize(rows.length, totalBytes);
+    }
+
+    await this.targetOrg.refreshAuth();
+    const deletions = flags['backup-dir'] ? await this.backUp(planned, flags['backup-dir'], limit) : planned;
+
+    this.progress.start(deletions.length, {}, { title: 'Deleting files' });
+    const chunks: PlannedDeletion[][] = [];
+    for (let i = 0; i < deletions.length; i += DELETE_CHUNK_SIZE) {
+      chunks.push(deletions.slice(i, i + DELETE_CHUNK_SIZE));
+    }
+    await Promise.all(chunks.map((chunk) => limit(() => this.deleteChunk(chunk))));
+    this.progress.finish();
+
+    const finalResult = this.summarize(rows.length, totalBytes);
+    this.log(`Deleted ${finalResult.deleted} of ${planned.length} documents, ${this.deletedBytes} bytes.`);
+    await this.writeFailuresToCsv(flags['error-file']);
+    return finalResult;
+  }
+
+  private summarize(total: number, totalBytes: number): FileDeleteResult {
+    return {
+      total,
+      deleted: this.results.filter((result) => result.success).length,
+      failed: this.errLog.length,
+      totalBytes,
+      results: this.results,
+    };
+  }
+
+  private async queryDocuments(where: string): Promise<Array<Record<string, string>>> {
+    const result = await this.targetOrg
+      .getConnection(this.apiVersion)
+      .query<{ Id: string }>(`SELECT Id FROM ContentDocument WHERE ${where}`, { autoFetch: true, maxFetch: Infinity });
+    return result.records.map(({ Id }) => ({ Id }));
+  }
+
+  /**
+   * Resolves the Ids of the rows to the documents to delete, ContentVersion Ids to the document they are a version of.
+   * Every document is deleted once, for the first row naming it. Rows that do not name a file are reported as failed.
+   */
+  private async planDeletions(rows: Array<Record<string, string>>, idField: string): Promise<PlannedDeletion[]> {
+    const conn = this.targetOrg.getConnection(this.apiVersion);
+    const ids = rows.map((row) => row[idField] ?? '');
+    const versionIds = ids.filter((id) => id.startsWith(CONTENT_VERSION_PREFIX));
+    const versions = await Promise.all(
+      inChunks(versionIds).map(async (idList) =>
+        conn.query<{ Id: string; ContentDocumentId: string }>(
+          `SELECT Id, ContentDocumentId FROM ContentVersion WHERE Id IN (${quote(idList)})`,
+          { autoFetch: true, maxFetch: Infinity }
+        )
+      )
+    );
+    const documentIdsByVersion = new Map(
+      versions.flatMap((result) => result.records).map((record) => [idKey(record.Id), record.ContentDocumentId])
+    );
+
+    const documentIds = ids.map((id) =>
+      id.startsWith(CONTENT_DOCUMENT_PREFIX) ? id : documentIdsByVersion.get(idKey(id))
+    );
+    const documents = await this.queryDocumentSizes([
+      ...new Set(documentIds.filter((id): id is string => id !== undefined)),
+    ]);
+
+    const planned = new Map<string, PlannedDeletion>();
+    rows.forEach((row, index) => {
+      const id = ids[index];
+      const documentId = documentIds[index];
+      const found = documentId ? documents.get(idKey(documentId)) : undefined;
+      if (found) {
+        if (!planned.has(found.document.Id)) {
+          planned.set(found.document.Id, { row, id, ...found });
+        }
+      } else if (!id.startsWith(CONTENT_VERSION_PREFIX) && !id.startsWith(CONTENT_DOCUMENT_PREFIX)) {
+        this.report(row, { success: false, id, error: 'Not a ContentVersion or ContentDocument Id' });
+      } else {
+        this.report(row, { success: false, id, error: 'File not found' });
+      }
+    });
+    return [...planned.values()];
+  }
+
+  /**
+   * Queries the documents by Id, with the size of all of their versions.
+   */
+  private async queryDocumentSizes(
+    documentIds: string[]
+  ): Promise<Map<string, { document: ContentDocument; bytes: number }>> {
+    const conn = this.targetOrg.getConnection(this.apiVersion);
+    const chunks = await Promise.all(
+      inChunks(documentIds).map(async (idChunk) => {
+        const idList = quote(idChunk);
+        return Promise.all([
+          conn.query<ContentDocument>(
+            `SELECT Id, Title, FileExtension, LatestPublishedVersionId FROM ContentDocument WHERE Id IN (${idList})`,
+            { autoFetch: true, maxFetch: Infinity }
+          ),
+          conn.query<{ ContentDocumentId: string; ContentSize: number }>(
+            `SELECT ContentDocumentId, ContentSize FROM ContentVersion WHERE ContentDocumentId IN (${idList})`,
+            { autoFetch: true, maxFetch: Infinity }
+          ),
+        ]);
+      })
+    );
+    const documents = new Map<string, { document: ContentDocument; bytes: number }>();
+    for (const [found, versions] of chunks) {
+      found.records.forEach((document) => documents.set(idKey(document.Id), { document, bytes: 0 }));
+      versions.records.forEach((version) => {
+        const entry = documents.get(idKey(version.ContentDocumentId));
+        if (entry) {
+          entry.bytes += version.ContentSize;
+        }
+      });
+    }
+    return documents;
+  }
+
+  /**
+   * Downloads the latest version of every document to the backup directory, the same way `fileops export` does,
+   * checked against its checksum and recorded in the manifest. Returns the documents that were backed up.
+   */
+  private async backUp(
+    planned: PlannedDeletion[],
+    backupDir: string,
+    limit: LimitFunction
+  ): Promise<PlannedDeletion[]> {
+    const conn = this.targetOrg.getConnection(this.apiVersion);
+    await fs.mkdir(backupDir, { recursive: true });
+    const manifest = await ExportManifest.open(backupDir, true);
+    const checksums = await queryChecksums(
+      conn,
+      planned.map(({ document }) => document.LatestPublishedVersionId)
+    );
+
+    this.progress.start(planned.length, {}, { title: 'Backing up files' });
+    let done = 0;
+    const backedUp = await Promise.all(
+      planned.map((deletion) =>
+        limit(async () => {
+          const versionId = deletion.document.LatestPublishedVersionId;
+          const extension = deletion.document.FileExtension;
+          const fileName = extension ? `${versionId}.${extension}` : versionId;
+          let attempts = 0;
+          try {
+            const size = await withRetry((attempt) => {
+              attempts = attempt;
+              return downloadToFile(conn, versionId, path.join(backupDir, fileName), checksums.get(versionId));
+            }, this.retryOptions);
+            manifest.record({ id: versionId, fileName, size, status: 'success' });
+            return true;
+          } catch (error) {
+            manifest.record({ id: versionId, fileName: '', size: 0, status: 'failed' });
+            this.report(deletion.row, {
+              ...FileDelete.describe(deletion),
+              success: false,
+              error: `Not deleted, the backup failed: ${(error as Error).message}`,
+              attempts,
+            });
+            return false;
+          } finally {
+            this.progress.update(++done);
+          }
+        })
+      )
+    );
+    this.progress.finish();
+    this.log(`Backed up ${backedUp.filter(Boolean).length} of ${planned.length} files to ${backupDir}`);
+    return planned.filter((deletion, index) => backedUp[index]);
+  }
+
+  /**
+   * Deletes the documents with one request, sending again the ones that failed with a transient error.
+   */
+  private async deleteChunk(chunk: PlannedDeletion[]): Promise<void> {
+    const conn = this.targetOrg.getConnection(this.apiVersion);
+    const reported = new Set<PlannedDeletion>();
+    let attempts = 0;
+
+    const send = (pending: PlannedDeletion[], attempt: number): Promise<SaveResult[]> => {
+      attempts = attempt;
+      return deleteRecords(
+        conn,
+        pending.map(({ document }) => document.Id)
+      );
+    };
+    try {
+      await saveWithRetry(chunk, send, this.retryOptions, (deletion, result, attempt) => {
+        reported.add(deletion);
+        this.reportDeletion(
+          deletion,
+          result.success
+            ? { success: true, attempts: attempt }
+            : {
+                success: false,
+                error: result.errors[0]?.message,
+                statusText: result.errors[0]?.statusCode,
+                attempts: attempt,
+              }
+        );
+      });
+    } catch (error) {
+      const axErr = error as AxiosError;
+      chunk
+        .filter((deletion) => !reported.has(deletion))
+        .forEach((deletion) =>
+          this.reportDeletion(deletion, {
+            success: false,
+            error: axErr.message,
+            statusText: axErr.response?.statusText,
+            attempts,
+          })
+        );
+    }
+  }
+
+  private report(row: Record<string, string>, result: DeleteResult): void {
+    this.results.push(result);
+    if (!result.success) {
+      this.errLog.push({ row, result });
+    }
+  }
+
+  /**
+   * Records the outcome of deleting a document and advances the progress bar.
+   */
+  private reportDeletion(deletion: PlannedDeletion, result: Omit<DeleteResult, 'id'>): void {
+    if (result.success) {
+      this.deletedBytes += deletion.bytes;
+    }
+    this.report(deletion.row, { ...FileDelete.describe(deletion), ...result });
+    this.progress.update(++this.processed);
+  }
+
+  /**
+   * Writes the rows whose document was not deleted with their input columns, so that the error file can be passed
+   * back with `--file` to try them again.
+   */
+  private async writeFailuresToCsv(errorFile: string | undefined): Promise<void> {
+    if (this.errLog.length === 0) {
+      return;
+    }
+    const fileName = errorFile ?? 'errors' + Date.now() + '.csv';
+    const csv = new Parser().parse(
+      this.errLog.map(({ row, result }) => ({
+        ...withoutErrorColumns(row),
+        Error: result.error,
+        ErrorStatusText: result.statusText,
+        Attempts: result.attempts,
+      }))
+    );
+    await fs.writeFile(fileName, csv);
+    this.log(`Errors written to ${fileName}`);
+  }
+}
@@ -1,33 +1,68 @@
 import fs from 'node:fs';
+import os from 'node:os';
 import path from 'node:path';
 import { Readable } from 'node:stream';
 import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
 import { Messages, Org } from '@salesforce/core';
-import csvParser from 'csv-parser';
 import axios from 'axios';
-import pLimit from 'p-limit';
 import { Parser } from 'json2csv';
+import { ExportManifest, ManifestEntry } from '../../shared/exportManifest.js';
+import { ExportState, parseSince } from '../../shared/exportState.js';
+import { FileNameTemplate } from '../../shared/fileNameTemplate.js';
+import { VersionChecksum, downloadToFile, queryChecksums } from '../../shared/contentVersions.js';
+import { RetryOptions, withRetry } from '../../shared/retry.js';
+import { monitorRequests } from '../../shared/httpClient.js';
+import { ApiBudget, ApiBudgetExhaustedError, parseMaxApiCalls } from '../../shared/apiBudget.js';
+import { Concurrency, createLimit, parseConcurrency } from '../../shared/adaptiveLimit.js';
+import { ZipWriter } from '../../shared/zipArchive.js';
+import { withoutErrorColumns } from '../../shared/errorFile.js';
+import { ID_CHUNK_SIZE, quote, readCsvRows } from '../../shared/records.js';
 
 Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
 const messages = Messages.loadMessages('@neatflow/fileops', 'fileops.export');
+const MAX_CONCURRENCY = 10;
+const CHECKSUM_CHUNK_SIZE = 200; // rows read ahead to look up their checksums with one query
+const SALESFORCE_ID = /^[a-zA-Z0-9]{15}([a-zA-Z0-9]{3})?$/;
 
-type AxiosResponse = {
-  data: Readable;
-  headers: Record<string, string>;
+type CSVError = {
+  Error: string;
+  ErrorDetails: string;
+  ErrorStatus: string;
+  ErrorStatusText: string;
+  ErrorUrl: string;
+  Attempts: number;
 };
 
-type CSVError = {
-  status: string;
-  statusText: string;
-  url: string;
-  id?: string;
-  message: string;
-  details: string;
+// a row that could not be exported, written to the error file with its input columns
+type FailedRow = {
+  row: Record<string, string>;
+  error: CSVError;
+};
+
+type ExportedFile = {
+  fileName: string;
+  size: number;
+};
+
+type SharedCopies = {
+  fileName: string;
+  sharedNames: string[];
+};
+
+type ExportSourceFlags = {
+  file?: string;
+  query?: string;
+  'parent-file'?: string;
+  'parent-query'?: string;
+  since?: string;
+  id: string;
 };
 
 export type FileExportResult = {
   successCount: number;
   failureCount: number;
+  skippedCount: number;
+  notAttemptedCount: number;
 };
 
 export default class FileExport extends SfCommand<FileExportResult> {
@@ -40,21 +75,73 @@ export default class FileExport extends SfCommand<FileExportResult> {
       summary: messages.getMessage('flags.file.summary'),
       description: messages.getMessage('flags.file.description'),
       char: 'f',
-      required: true,
       exists: true,
+      exactlyOne: ['file', 'query', 'parent-file', 'parent-query', 'since'],
+    }),
+    query: Flags.string({
+      summary: messages.getMessage('flags.query.summary'),
+      description: messages.getMessage('flags.query.description'),
+      char: 'q',
+      exactlyOne: ['file', 'query', 'parent-file', 'parent-query', 'since'],
+    }),
+    'parent-file': Flags.file({
+      summary: messages.getMessage('flags.parent-file.summary'),
+      description: messages.getMessage('flags.parent-file.description'),
+      exists: true,
+      exactlyOne: ['file', 'query', 'parent-file', 'parent-query', 'since'],
+    }),
+    'parent-query': Flags.string({
+      summary: messages.getMessage('flags.parent-query.summary'),
+      description: messages.getMessage('flags.parent-query.description'),
+      exactlyOne: ['file', 'query', 'parent-file', 'parent-query', 'since'],
     }),
+    since: Flags.custom<string>({
+      summary: messages.getMessage('flags.since.summary'),
+      description: messages.getMessage('flags.since.description'),
+      exactlyOne: ['file', 'query', 'parent-file', 'parent-query', 'since'],
+      exclusive: ['archive'],
+      parse: parseSince,
+    })(),
+    'keep-versions': Flags.boolean({
+      summary: messages.getMessage('flags.keep-versions.summary'),
+      description: messages.getMessage('flags.keep-versions.description'),
+      dependsOn: ['since'],
+    }),
+    'shared-file-mode': Flags.option({
+      summary: messages.getMessage('flags.shared-file-mode.summary'),
+      description: messages.getMessage('flags.shared-file-mode.description'),
+      options: ['copy', 'symlink'] as const,
+      default: 'copy',
+    })(),
     'output-dir': Flags.directory({
       summary: messages.getMessage('flags.output-dir.summary'),
       description: messages.getMessage('flags.output-dir.description'),
-      required: true,
       char: 'd',
+      exactlyOne: ['output-dir', 'archive'],
+    }),
+    archive: Flags.file({
+      summary: messages.getMessage('flags.archive.summary'),
+      description: messages.getMessage('flags.archive.description'),
+      char: 'a',
+      exactlyOne: ['output-dir', 'archive'],
     }),
-    concurrency: Flags.integer({
+    concurrency: Flags.custom<Concurrency>({
       summary: messages.getMessage('flags.concurrency.summary'),
       description: messages.getMessage('flags.concurrency.description'),
       char: 'c',
       default: 3,
-      min: 1,
+      parse: parseConcurrency(MAX_CONCURRENCY),
+    })(),
+    'max-api-calls': Flags.custom<number>({
+      summary: messages.getMessage('flags.max-api-calls.summary'),
+      description: messages.getMessage('flags.max-api-calls.description'),
+      parse: parseMaxApiCalls,
+    })(),
+    'max-retries': Flags.integer({
+      summary: messages.getMessage('flags.max-retries.summary'),
+      description: messages.getMessage('flags.max-retries.description'),
+      default: 3,
+      min: 0,
       max: 10,
     }),
     id: Flags.string({
@@ -67,14 +154,67 @@ export default class FileExport extends SfCommand<FileExportResult> {
       description: messages.getMessage('flags.ext-col-name.description'),
       char: 'e',
     }),
+    'filename-template': Flags.string({
+      summary: messages.getMessage('flags.filename-template.summary'),
+      description: messages.getMessage('flags.filename-template.description'),
+      char: 't',
+    }),
+    'error-file': Flags.file({
+      summary: messages.getMessage('flags.error-file.summary'),
+      description: messages.getMessage('flags.error-file.description'),
+    }),
+    'metadata-file': Flags.file({
+      summary: messages.getMessage('flags.metadata-file.summary'),
+      description: messages.getMessage('flags.metadata-file.description'),
+      char: 'm',
+    }),
+    'metadata-fields': Flags.string({
+      summary: messages.getMessage('flags.metadata-fields.summary'),
+      description: messages.getMessage('flags.metadata-fields.description'),
+      multiple: true,
+      delimiter: ',',
+      dependsOn: ['metadata-file'],
+    }),
+    resume: Flags.boolean({
+      summary: messages.getMessage('flags.resume.summary'),
+      description: messages.getMessage('flags.resume.description'),
+      char: 'r',
+      default: false,
+      exclusive: ['archive'],
+    }),
     'target-org': Flags.requiredOrg(),
+    'api-version': Flags.orgApiVersion(),
   };
 
   protected static requiresUsername = true;
   private targetOrg!: Org;
+  private apiVersion?: string;
   private idFieldName!: string;
   private extColName!: string;
-  private errorLog: CSVError[] = [];
+  private errorLog: FailedRow[] = [];
+  private errorFile?: string;
+  private manifest!: ExportManifest;
+  private fileNameTemplate!: FileNameTemplate;
+  private byParent = false;
+  private sharedFileMode: 'copy' | 'symlink' = 'copy';
+  // other parents of the ContentVersions shared with several parent records, when exporting by parent record
+  private sharedParents = new Map<string, string[]>();
+  // the name of each ContentVersion named so far in the folder of its first parent, and of its copies in the others
+  private sharedCopies = new Map<string, SharedCopies>();
+  // rows of the import-ready csv, in the order of the input rows. Slots of failed rows stay empty.
+  private metadataRows: Array<Record<string, string> | undefined> = [];
+  private metadataFields: string[] = [];
+  private retryOptions: RetryOptions = { maxRetries: 0 };
+  // expected checksum and size of the ContentVersions to download
+  private checksums = new Map<string, VersionChecksum>();
+  // with --archive, files are downloaded to a temporary directory and moved into the archive one at a time
+  private archive?: ZipWriter;
+  // with --since, the high-water mark of the previous run and the version last exported for each document
+  private state?: ExportState;
+  private since?: string;
+  private keepVersions = false;
+  // the api call budget ran out while the rows were read, the rows after the ones read were not
+  private readStopped = false;
 
   private static ensureOutputDirectory(outputDir: string): void {
     if (!fs.existsSync(outputDir)) {
@@ -82,6 +222,83 @@ export default class FileExport extends SfCommand<FileExportResult> {
     }
   }
 
+  private static async *pluck(rows: AsyncIterable<Record<string, string>>, field: string): AsyncGenerator<string> {
+    for await (const row of rows) {
+      yield row[field];
+    }
+  }
+
+  private static describeSource(flags: ExportSourceFlags, since?: string): string {
+    if (flags.query) return `Running query: ${flags.query}`;
+    if (flags.since) return since ? `Exporting files modified since: ${since}` : 'Exporting all files';
+    if (flags['parent-query']) return `Exporting files linked to the records returned by: ${flags['parent-query']}`;
+    if (flags['parent-file']) return `Exporting files linked to the records in CSV file: ${flags['parent-file']}`;
+    return `Reading CSV file: ${flags.file as string}`;
+  }
+
+  private static describeOutput(outputDir: string, archivePath?: string): string {
+    return archivePath ? `Archive: ${archivePath}` : `Output directory: ${outputDir}`;
+  }
+
+  private static isContentVersionQuery(soql: string): boolean {
+    return /\bfrom\s+contentversion\b/i.test(soql);
+  }
+
+  /**
+   * Queries the ContentVersions modified after the high-water mark, oldest first, or all of them without a mark. Only
+   * the latest version of each document is exported, unless older versions are kept.
+   */
+  private static changedVersionsQuery(since: string | undefined, keepVersions: boolean): string {
+    const conditions = [...(keepVersions ? [] : ['IsLatest = true']), ...(since ? [`SystemModstamp > ${since}`] : [])];
+    return (
+      'SELECT Id, ContentDocumentId, Title, FileExtension, VersionNumber, SystemModstamp FROM ContentVersion' +
+      (conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '') +
+      ' ORDER BY SystemModstamp'
+    );
+  }
+
+  /**
+   * Converts a query record to a flat row of strings, like one read from a CSV file. Relationship fields are flattened
+   * using dot notation (eg: Owner.Name).
+   */
+  private static flattenRecord(record: Record<string, unknown>, prefix = ''): Record<string, string> {
+    const row: Record<string, string> = {};
+    for (const [key, value] of Object.entries(record)) {
+      if (key === 'attributes') continue;
+      if (value !== null && typeof value === 'object') {
+        Object.assign(row, FileExport.flattenRecord(value as Record<string, unknown>, `${prefix}${key}.`));
+      } else {
+        row[`${prefix}${key}`] = value === null || value === undefined ? '' : String(value);
+      }
+    }
+    return row;
+  }
+
+  /**
+   * Builds a row for `fileops import` from an exported file. The columns match the ones expected by the import
+   * command, with `VersionData` pointing to the exported file.
+   */
+  private static toImportRow(
+    row: Record<string, string>,
+    fileName: string,
+    versionData: string,
+    fields: string[]
+  ): Record<string, string> {
+    const importRow: Record<string, string> = {
+      Title: row.Title || path.parse(fileName).name,
+      PathOnClient: row.PathOnClient || path.basename(fileName),
+      VersionData: versionData,
+    };
+    for (const field of fields) {
+      importRow[field] = row[field] ?? '';
+    }
+    return importRow;
+  }
+
+  private static toArchiveName(fileName: string): string {
+    return fileName.split(path.sep).join('/');
+  }
+
   private static safeStringify(obj: unknown): string {
     const cache = new Set();
     return JSON.stringify(obj, (key, value) => {
@@ -97,135 +314,601 @@ export default class FileExport extends SfCommand<FileExportResult> {
 
   public async run(): Promise<FileExportResult> {
     const { flags } = await this.parse(FileExport);
-    const csvFilePath = flags.file;
     this.targetOrg = flags['target-org'];
-    this.idFieldName = flags.id;
-    this.extColName = flags['ext-col-name'] ?? '';
+    this.apiVersion = flags['api-version'];
+    this.byParent = Boolean(flags['parent-file'] ?? flags['parent-query']);
+    this.sharedFileMode = flags['shared-file-mode'];
+    this.idFieldName = flags.file ? flags.id : 'Id';
+    this.extColName = flags['ext-col-name'] ?? (flags.file ? '' : 'FileExtension');
+    this.metadataFields = flags['metadata-fields'] ?? [];
+    this.errorFile = flags['error-file'];
+    this.keepVersions = Boolean(flags['keep-versions']);
+    this.retryOptions = {
+      maxRetries: flags['max-retries'],
+      onRetry: (error, attempt, delayMs) =>
+        this.debug(`Retrying after ${delayMs}ms, attempt ${attempt} failed: ${(error as Error).message}`),
+    };
 
     const concurrency = flags.concurrency;
-    const outputDir: string = flags['output-dir'];
-    const limit = pLimit(concurrency);
+    const outputDir = this.openOutput(flags['output-dir'], flags.archive);
+    const conn = this.targetOrg.getConnection(this.apiVersion);
+    const budget = new ApiBudget(flags['max-api-calls']);
+    monitorRequests(conn, budget);
+    const limit = createLimit(conn, concurrency, MAX_CONCURRENCY);
     const tasks: Array<Promise<boolean>> = [];
 
+    if (flags.query && !FileExport.isContentVersionQuery(flags.query)) {
+      throw messages.createError('error.invalidQuery');
+    }
+
     FileExport.ensureOutputDirectory(outputDir);
+    await this.openManifest(outputDir, flags.resume, flags.since);
+    this.fileNameTemplate = new FileNameTemplate(flags['filename-template'] ?? this.defaultFileNameTemplate());
+    this.manifest.completedFileNames().forEach((fileName) => this.fileNameTemplate.reserve(fileName));
     await this.targetOrg.refreshAuth();
 
     this.log(`Starting file export with concurrency: ${concurrency}`);
-    this.log(`Reading CSV file: ${csvFilePath}`);
-    this.log(`Output directory: ${outputDir}`);
-
-    const thePromise: Promise<FileExportResult> = new Promise((resolve, reject) => {
-      let totalFiles = 0;
-      let downloadCount = 0;
-      let successCount = 0;
-      let failureCount = 0;
-
-      fs.createReadStream(csvFilePath)
-        .pipe(csvParser())
-        .on('data', (row: Record<string, string>) => {
-          totalFiles++;
-          tasks.push(
-            limit(async () => {
-              try {
-                await this.processRow(row, outputDir);
-                successCount++;
-                return true;
-              } catch (error) {
-                failureCount++;
-                this.logError(
-                  `Error processing row with ID ${row[this.idFieldName] || 'unknown'}`,
-                  row[this.idFieldName],
-                  error
-                );
+    this.log(FileExport.describeSource(flags, this.since));
+    this.log(FileExport.describeOutput(outputDir, flags.archive));
+
+    let totalFiles = 0;
+    let downloadCount = 0;
+    let successCount = 0;
+    let failureCount = 0;
+    let skippedCount = 0;
+    let notAttemptedCount = 0;
+
+    try {
+      const rows = this.withChecksums(this.readRows(flags, outputDir));
+      for await (const row of rows) {
+        const contentVersionId = row[this.idFieldName];
+        if (contentVersionId && this.manifest.isComplete(contentVersionId)) {
+          const previousFileName = this.manifest.get(contentVersionId)?.fileName ?? '';
+          this.metadataRows.push(
+            FileExport.toImportRow(
+              row,
+              previousFileName,
+              this.versionData(previousFileName, outputDir),
+              this.metadataFields
+            )
+          );
+          this.state?.exported(row.ContentDocumentId, contentVersionId, row.SystemModstamp);
+          skippedCount++;
+          continue;
+        }
+
+        const previous = this.previousVersion(row);
+        totalFiles++;
+        const metadataIndex = this.metadataRows.push(undefined) - 1;
+        tasks.push(
+          limit(async () => {
+            let attempts = 0;
+            try {
+              if (budget.exhausted) {
+                notAttemptedCount++;
+                this.state?.failed(row.SystemModstamp);
                 return false;
-              } finally {
-                this.progress.update(++downloadCount);
               }
-            })
-          );
-        })
-        .on('end', () => {
-          if (totalFiles === 0) {
-            this.log('No records found in CSV file.');
-            resolve({ successCount: 0, failureCount: 0 });
-            return;
-          }
-
-          this.progress.start(0, {}, { title: 'Exporting files' });
-          this.progress.setTotal(totalFiles);
-
-          Promise.allSettled(tasks)
-            .then(() => {
-              this.progress.finish();
-              this.writeFailuresToCsv();
-
-              this.log(`Export complete. ${successCount} files exported successfully, ${failureCount} files failed.`);
-
-              return {
-                successCount,
-                failureCount,
-              } as FileExportResult;
-            })
-            .then((resp) => resolve(resp))
-            .catch((err) => {
-              this.progress.finish();
-              this.logError('Fatal error during export process', '', err);
-              this.writeFailuresToCsv();
-              reject(err);
-            });
-        })
-        .on('error', (err) => {
-          this.progress.finish();
-          this.logError('Error reading CSV file', '', err);
-          this.writeFailuresToCsv();
-          reject(err);
+              const exported = await this.processRow(
+                row,
+                outputDir,
+                (attempt) => (attempts = attempt),
+                previous?.fileName
+              );
+              await this.placeExportedFile(row, exported, outputDir);
+              if (previous) {
+                this.removeReplacedVersion(previous, exported.fileName, outputDir);
+              }
+              this.metadataRows[metadataIndex] = FileExport.toImportRow(
+                row,
+                exported.fileName,
+                this.versionData(exported.fileName, outputDir),
+                this.metadataFields
+              );
+              this.state?.exported(row.ContentDocumentId, contentVersionId, row.SystemModstamp);
+              successCount++;
+              return true;
+            } catch (error) {
+              this.state?.failed(row.SystemModstamp);
+              if (error instanceof ApiBudgetExhaustedError) {
+                notAttemptedCount++;
+                return false;
+              }
+              failureCount++;
+              if (contentVersionId) {
+                this.manifest.record({ id: contentVersionId, fileName: '', size: 0, status: 'failed' });
+              }
+              this.logError(`Error processing row with ID ${row[this.idFieldName] || 'unknown'}`, row, error, attempts);
+              return false;
+            } finally {
+              this.progress.update(++downloadCount);
+            }
+          })
+        );
+      }
+    } catch (err) {
+      await Promise.allSettled(tasks);
+      this.progress.finish();
+      this.logError('Error reading records to export', {}, err);
+      await this.writeFailuresToCsv();
+      await this.writeMetadataCsv(flags['metadata-file']);
+      await this.closeArchive(outputDir);
+      throw err;
+    }
+
+    if (skippedCount > 0) {
+      this.log(`Skipping ${skippedCount} files already exported in a previous run.`);
+    }
+
+    if (totalFiles === 0) {
+      this.log(skippedCount > 0 ? 'Nothing left to export.' : 'No records found to export.');
+      this.warnStopped(budget, 0, 0);
+      this.state?.save();
+      await this.writeMetadataCsv(flags['metadata-file']);
+      await this.closeArchive(outputDir);
+      return { successCount: 0, failureCount: 0, skippedCount, notAttemptedCount };
+    }
+
+    this.progress.start(0, {}, { title: 'Exporting files' });
+    this.progress.setTotal(totalFiles);
+    this.progress.update(downloadCount);
+
+    await Promise.allSettled(tasks);
+    this.progress.finish();
+    this.state?.save();
+    await this.writeFailuresToCsv();
+    await this.writeMetadataCsv(flags['metadata-file']);
+    await this.closeArchive(outputDir);
+
+    this.log(`Export complete. ${successCount} files exported successfully, ${failureCount} files failed.`);
+    this.warnStopped(budget, notAttemptedCount, totalFiles);
+    if (flags['max-api-calls'] !== undefined) {
+      this.log(`API calls made: ${budget.calls}`);
+    }
+
+    return {
+      successCount,
+      failureCount,
+      skippedCount,
+      notAttemptedCount,
+    };
+  }
+
+  /**
+   * Warns about the files that were not exported, and the records that were not read, once the budget ran out.
+   */
+  private warnStopped(budget: ApiBudget, notAttemptedCount: number, totalFiles: number): void {
+    const reason = budget.exhaustedReason ?? 'the API call budget was used up';
+    if (totalFiles === 0 && this.readStopped) {
+      this.warn(`Stopped reading the records to export, ${reason}.`);
+    } else if (notAttemptedCount > 0 || this.readStopped) {
+      this.warn(
+        `Stopped early, ${reason}. ${notAttemptedCount} of ${totalFiles} files were not exported` +
+          (this.readStopped ? ' and the records after them were not read' : '') +
+          '. Run the export again with --resume to export them.'
+      );
+    }
+  }
+
+  /**
+   * Looks up the checksums of the ContentVersions to download, a chunk of rows at a time, as the rows are read.
+   */
+  private async *withChecksums(rows: AsyncIterable<Record<string, string>>): AsyncGenerator<Record<string, string>> {
+    const conn = this.targetOrg.getConnection(this.apiVersion);
+    let chunk: Array<Record<string, string>> = [];
+    let last: Record<string, string> | undefined;
+    const lookup = async (): Promise<void> => {
+      const ids = chunk
+        .map((row) => row[this.idFieldName])
+        .filter((id) => id && SALESFORCE_ID.test(id) && !this.manifest.isComplete(id));
+      const checksums = await queryChecksums(conn, [...new Set(ids)]);
+      checksums.forEach((checksum, id) => this.checksums.set(id, checksum));
+    };
+
+    try {
+      for await (const row of rows) {
+        chunk.push(row);
+        last = row;
+        if (chunk.length === CHECKSUM_CHUNK_SIZE) {
+          await lookup();
+          yield* chunk;
+          chunk = [];
+        }
+      }
+      await lookup();
+    } catch (error) {
+      if (!(error instanceof ApiBudgetExhaustedError)) {
+        throw error;
+      }
+      // the rows read so far are reported as not attempted, and the mark of --since stays before the rows not read
+      this.readStopped = true;
+      if (last) {
+        this.state?.failed(last.SystemModstamp);
+      }
+    }
+    yield* chunk;
+  }
+
+  /**
+   * Opens the manifest of the output directory. With `--since`, also loads the state of the previous run, which the
+   * `last` high-water mark is read from, and keeps the manifest of the previous runs.
+   */
+  private async openManifest(outputDir: string, resume: boolean, since: string | undefined): Promise<void> {
+    if (since) {
+      this.state = ExportState.load(outputDir);
+      this.since = since === 'last' ? this.state.since : since;
+    }
+    this.manifest = await ExportManifest.open(outputDir, resume || this.state !== undefined);
+  }
+
+  private defaultFileNameTemplate(): string {
+    return this.keepVersions ? '{ContentDocumentId}/{VersionNumber}.{ext}' : `{${this.idFieldName}}.{ext}`;
+  }
+
+  private readRows(flags: ExportSourceFlags, outputDir: string): AsyncIterable<Record<string, string>> {
+    if (flags.query) {
+      return this.queryRows(flags.query);
+    }
+    if (flags.since) {
+      return this.queryRows(FileExport.changedVersionsQuery(this.since, this.keepVersions));
+    }
+    if (flags['parent-query']) {
+      return this.parentRows(FileExport.pluck(this.queryRows(flags['parent-query']), 'Id'), outputDir);
+    }
+    if (flags['parent-file']) {
+      return this.parentRows(FileExport.pluck(readCsvRows(flags['parent-file']), flags.id), outputDir);
+    }
+    return readCsvRows(flags.file as string);
+  }
+
+  /**
+   * Resolves parent record Ids to the latest version of every document linked to them through ContentDocumentLink,
+   * yielding the documents of each page of links as it is read. Each document is yielded once, under the first parent
+   * it was found on. Its other parents are remembered so the downloaded file can be copied to their folders as well.
+   */
+  private async *parentRows(
+    parentIds: AsyncIterable<string>,
+    outputDir: string
+  ): AsyncGenerator<Record<string, string>> {
+    const parents = new Set<string>();
+    const documents = new Set<string>();
+    let chunk: string[] = [];
+
+    for await (const parentId of parentIds) {
+      if (!parentId || parents.has(parentId)) continue;
+      parents.add(parentId);
+      chunk.push(parentId);
+      if (chunk.length === ID_CHUNK_SIZE) {
+        yield* this.linkedDocuments(chunk, documents, outputDir);
+        chunk = [];
+      }
+    }
+    if (chunk.length > 0) {
+      yield* this.linkedDocuments(chunk, documents, outputDir);
+    }
+  }
+
+  private async *linkedDocuments(
+    parentIds: string[],
+    documents: Set<string>,
+    outputDir: string
+  ): AsyncGenerator<Record<string, string>> {
+    const soql =
+      'SELECT ContentDocumentId, LinkedEntityId, ContentDocument.LatestPublishedVersionId, ContentDocument.Title, ' +
+      `ContentDocument.FileExtension FROM ContentDocumentLink WHERE LinkedEntityId IN (${quote(parentIds)})`;
+
+    for await (const links of this.queryPages(soql)) {
+      const rows: Array<Record<string, string>> = [];
+      const sharedParents: Array<Promise<void>> = [];
+      for (const link of links) {
+        const contentVersionId = link['ContentDocument.LatestPublishedVersionId'];
+        if (documents.has(link.ContentDocumentId)) {
+          sharedParents.push(this.addSharedParent(contentVersionId, link.LinkedEntityId, outputDir));
+          continue;
+        }
+        documents.add(link.ContentDocumentId);
+        rows.push({
+          Id: contentVersionId,
+          ContentDocumentId: link.ContentDocumentId,
+          LinkedEntityId: link.LinkedEntityId,
+          Title: link['ContentDocument.Title'],
+          FileExtension: link['ContentDocument.FileExtension'],
         });
-    });
+      }
+      await Promise.all(sharedParents);
+      yield* rows;
+    }
+  }
 
-    return thePromise;
+  /**
+   * Remembers another parent of a document. A document that is not named yet is named in the parent's folder along
+   * with its first parent. Otherwise the copy is given a name of its own in the parent's folder, and a file that was
+   * already placed is copied there straight away, the others when they are placed. The name is claimed before the copy
+   * is started, so the parents of a page of links can be added at once.
+   */
+  private async addSharedParent(contentVersionId: string, parentId: string, outputDir: string): Promise<void> {
+    const placed = this.manifest.get(contentVersionId);
+    const copies =
+      this.sharedCopies.get(contentVersionId) ??
+      (placed?.status === 'success' ? { fileName: placed.fileName, sharedNames: [] } : undefined);
+    if (!copies) {
+      const sharedParents = this.sharedParents.get(contentVersionId) ?? [];
+      this.sharedParents.set(contentVersionId, [...sharedParents, parentId]);
+      return;
+    }
+    const sharedName = this.claimSharedName(copies.fileName, parentId, outputDir);
+    this.sharedCopies.set(contentVersionId, { ...copies, sharedNames: [...copies.sharedNames, sharedName] });
+    if (placed?.status !== 'success') {
+      return;
+    }
+    try {
+      if (this.archive) {
+        await this.archive.addFile(FileExport.toArchiveName(sharedName), path.join(outputDir, placed.fileName));
+      } else {
+        this.copyToSharedParents(placed.fileName, [sharedName], outputDir);
+      }
+    } catch (error) {
+      this.warn(`Failed to copy ${placed.fileName} to ${sharedName}: ${(error as Error).message}`);
+    }
   }
 
-  private logError(message: string, id: string, details?: unknown): void {
+  /**
+   * The version exported before for the document of the row, which the row's version replaces. Its name is released,
+   * so that a template that does not include the version Id names the new file the same.
+   */
+  private previousVersion(row: Record<string, string>): ManifestEntry | undefined {
+    if (!this.state || this.keepVersions) {
+      return undefined;
+    }
+    const previousId = this.state.versionOf(row.ContentDocumentId);
+    const previous = previousId && previousId !== row[this.idFieldName] ? this.manifest.get(previousId) : undefined;
+    if (previous?.status !== 'success') {
+      return undefined;
+    }
+    this.fileNameTemplate.release(previous.fileName);
+    return previous;
+  }
+
+  /**
+   * Deletes the file of the replaced version, once the new version has been downloaded and checked.
+   */
+  private removeReplacedVersion(previous: ManifestEntry, fileName: string, outputDir: string): void {
+    if (previous.fileName !== fileName) {
+      fs.rmSync(path.join(outputDir, previous.fileName), { force: true });
+    }
+    this.manifest.record({ ...previous, status: 'replaced' });
+  }
+
+  /**
+   * The names of a file downloaded into one parent's folder in the folders of the other parents it is shared with.
+   */
+  private sharedFileNames(row: Record<string, string>): string[] {
+    return this.sharedCopies.get(row[this.idFieldName])?.sharedNames ?? [];
+  }
+
+  /**
+   * Claims the name of a copy of a file in the folder of another parent: the name of the file in its first parent's
+   * folder, or a suffixed one when that is taken. A name already used by a file on disk, eg: left by an earlier run, is
+   * skipped, so that a copy never replaces a file.
+   */
+  private claimSharedName(fileName: string, parentId: string, outputDir: string): string {
+    const [, ...nameInFolder] = fileName.split(path.sep);
+    for (;;) {
+      const sharedName = this.fileNameTemplate.claimName(path.join(parentId, ...nameInFolder));
+      if (!this.isOnDisk(sharedName, outputDir)) {
+        return sharedName;
+      }
+    }
+  }
+
+  private isOnDisk(fileName: string, outputDir: string): boolean {
+    return !this.archive && fs.existsSync(path.join(outputDir, fileName));
+  }
+
+  /**
+   * Makes a downloaded file available in the folders of the other parents it is shared with.
+   */
+  private copyToSharedParents(fileName: string, sharedNames: string[], outputDir: string): void {
+    const source = path.join(outputDir, fileName);
+    for (const sharedName of sharedNames) {
+      const target = path.join(outputDir, sharedName);
+      FileExport.ensureOutputDirectory(path.dirname(target));
+      if (this.sharedFileMode === 'symlink') {
+        fs.symlinkSync(path.relative(path.dirname(target), source), target);
+      } else {
+        fs.copyFileSync(source, target);
+      }
+    }
+  }
+
+  /**
+   * Runs the query against the target org and yields each record as a row, following `nextRecordsUrl` until all
+   * pages have been read.
+   */
+  private async *queryRows(soql: string): AsyncGenerator<Record<string, string>> {
+    for await (const rows of this.queryPages(soql)) {
+      yield* rows;
+    }
+  }
+
+  /**
+   * Runs the query against the target org and yields the records of each page as rows.
+   */
+  private async *queryPages(soql: string): AsyncGenerator<Array<Record<string, string>>> {
+    const conn = this.targetOrg.getConnection(this.apiVersion);
+    let result = await conn.query<Record<string, unknown>>(soql);
+    while (true) {
+      yield result.records.map((record) => FileExport.flattenRecord(record));
+      if (result.done || !result.nextRecordsUrl) {
+        break;
+      }
+      // eslint-disable-next-line no-await-in-loop
+      result = await conn.queryMore<Record<string, unknown>>(result.nextRecordsUrl);
+    }
+  }
+
+  private logError(message: string, row: Record<string, string>, details?: unknown, attempts = 0): void {
     const errorMessage: CSVError = {
-      id,
-      message,
-      status: 'unknown',
-      statusText: 'unknown',
-      url: 'unknown',
-      details: 'unknown',
+      Error: message,
+      ErrorDetails: 'unknown',
+      ErrorStatus: 'unknown',
+      ErrorStatusText: 'unknown',
+      ErrorUrl: 'unknown',
+      Attempts: attempts,
     };
 
     if (details) {
       if (axios.isAxiosError(details)) {
-        errorMessage.status = (details.response?.status ?? 'unknown') + '';
-        errorMessage.statusText = details.response?.statusText ?? 'unknown';
-        errorMessage.url = details.config?.url ?? 'unknown';
+        errorMessage.ErrorStatus = (details.response?.status ?? 'unknown') + '';
+        errorMessage.ErrorStatusText = details.response?.statusText ?? 'unknown';
+        errorMessage.ErrorUrl = details.config?.url ?? 'unknown';
       } else if (details instanceof Error) {
-        errorMessage.details = details.message;
+        errorMessage.ErrorDetails = details.message;
       } else {
-        errorMessage.details = FileExport.safeStringify(details);
+        errorMessage.ErrorDetails = FileExport.safeStringify(details);
       }
     }
 
-    this.errorLog.push(errorMessage);
+    this.errorLog.push({ row, error: errorMessage });
     this.debug(errorMessage);
   }
 
-  private writeFailuresToCsv(): void {
+  /**
+   * Adds a downloaded file to the archive, or copies it to the folders of the other parents it is shared with, and
+   * records it in the manifest. Other parents found while the file is placed are given a copy as well, those found
+   * once it is recorded are given one by `addSharedParent`.
+   */
+  private async placeExportedFile(
+    row: Record<string, string>,
+    exported: ExportedFile,
+    outputDir: string
+  ): Promise<void> {
+    const filePath = path.join(outputDir, exported.fileName);
+    try {
+      await this.archive?.addFile(FileExport.toArchiveName(exported.fileName), filePath);
+      let placed = 0;
+      let sharedNames = this.sharedFileNames(row);
+      while (placed < sharedNames.length) {
+        // eslint-disable-next-line no-await-in-loop -- the parents found while a copy is added are only known after it
+        await this.placeSharedCopies(exported.fileName, sharedNames.slice(placed), outputDir);
+        placed = sharedNames.length;
+        sharedNames = this.sharedFileNames(row);
+      }
+      this.manifest.record({ id: row[this.idFieldName], ...exported, status: 'success' });
+    } finally {
+      // a file shared with parents found on later pages of links is added to the archive again from the download
+      if (this.archive && !(this.byParent && this.manifest.get(row[this.idFieldName])?.status === 'success')) {
+        fs.rmSync(filePath, { force: true });
+      }
+    }
+  }
+
+  private async placeSharedCopies(fileName: string, sharedNames: string[], outputDir: string): Promise<void> {
+    if (!this.archive) {
+      this.copyToSharedParents(fileName, sharedNames, outputDir);
+      return;
+    }
+    const archive = this.archive;
+    await Promise.all(
+      sharedNames.map(async (sharedName) =>
+        archive.addFile(FileExport.toArchiveName(sharedName), path.join(outputDir, fileName))
+      )
+    );
+  }
+
+  /**
+   * Returns the directory to download the files to: the output directory, or a temporary directory when the files are
+   * written to an archive.
+   */
+  private openOutput(outputDir: string | undefined, archivePath: string | undefined): string {
+    if (!archivePath) {
+      return outputDir as string;
+    }
+    this.archive = ZipWriter.create(archivePath);
+    return fs.mkdtempSync(path.join(os.tmpdir(), 'fileops-export-'));
+  }
+
+  /**
+   * Adds the manifest to the archive, so that the export can be verified once extracted, and finishes the archive.
+   */
+  private async closeArchive(outputDir: string): Promise<void> {
+    if (!this.archive) {
+      return;
+    }
+    try {
+      await this.archive.addFile(ExportManifest.FILE_NAME, path.join(outputDir, ExportManifest.FILE_NAME));
+      await this.archive.close();
+    } finally {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * The `VersionData` of an exported file in the import-ready csv: the absolute path of the file, or its path in the
+   * archive, which `fileops import` reads relative to the root of the archive.
+   */
+  private versionData(fileName: string, outputDir: string): string {
+    return this.archive ? FileExport.toArchiveName(fileName) : path.resolve(outputDir, fileName);
+  }
+
+  /**
+   * Writes a csv to the given file, or adds it to the root folder of the archive.
+   */
+  private async writeCsv(fileName: string, csv: string): Promise<string> {
+    if (this.archive) {
+      const name = path.basename(fileName);
+      await this.archive.addData(name, csv);
+      return `${name} in the archive`;
+    }
+    fs.writeFileSync(fileName, csv);
+    return fileName;
+  }
+
+  /**
+   * Writes the failed rows with their input columns, so that the error file can be exported again with `--file`.
+   */
+  private async writeFailuresToCsv(): Promise<void> {
     if (this.errorLog.length > 0) {
-      const fileName = 'errors' + Date.now() + '.csv';
       try {
         const parser = new Parser();
-        const csv = parser.parse(this.errorLog);
-        fs.writeFileSync(fileName, csv);
-        this.log(`Errors written to ${fileName}`);
+        const csv = parser.parse(this.errorLog.map(({ row, error }) => ({ ...withoutErrorColumns(row), ...error })));
+        if (this.errorFile) {
+          fs.writeFileSync(this.errorFile, csv);
+          this.log(`Errors written to ${this.errorFile}`);
+        } else {
+          this.log(`Errors written to ${await this.writeCsv('errors' + Date.now() + '.csv', csv)}`);
+        }
       } catch (err) {
         this.error(`Failed to write error log: ${(err as Error).message}`);
       }
     }
   }
 
-  private async processRow(row: Record<string, string>, outputDir: string): Promise<void> {
+  private async writeMetadataCsv(metadataFile: string | undefined): Promise<void> {
+    const rows = this.metadataRows.filter((row): row is Record<string, string> => row !== undefined);
+    if (!metadataFile || rows.length === 0) {
+      return;
+    }
+    try {
+      const parser = new Parser({ fields: ['Title', 'PathOnClient', 'VersionData', ...this.metadataFields] });
+      const written = await this.writeCsv(metadataFile, parser.parse(rows));
+      this.log(`Import-ready metadata for ${rows.length} files written to ${written}`);
+    } catch (err) {
+      this.error(`Failed to write metadata file: ${(err as Error).message}`);
+    }
+  }
+
+  /**
+   * Downloads the file of a row. Transient failures are retried, `onAttempt` is called with the number of each
+   * attempt so that the number of attempts made can be reported when the download fails. A file named `replacing`,
+   * of a version the row's version replaces, is only overwritten once the new file has been downloaded and checked.
+   */
+  private async processRow(
+    row: Record<string, string>,
+    outputDir: string,
+    onAttempt: (attempt: number) => void,
+    replacing?: string
+  ): Promise<ExportedFile> {
     const contentVersionId = row[this.idFieldName];
 
     if (!contentVersionId) {
@@ -237,48 +920,35 @@ export default class FileExport extends SfCommand<FileExportResult> {
       ext = ext.split('.').pop() as string;
     }
 
-    const conn = this.targetOrg.getConnection();
-    const apiVersion = conn.getApiVersion();
-    const fileUrl = `${conn.instanceUrl}/services/data/v${apiVersion}/sobjects/ContentVersion/${contentVersionId}/VersionData`;
-
-    let response: AxiosResponse | undefined;
-    let writer: fs.WriteStream | undefined;
-
-    try {
-      response = await axios.get(fileUrl, {
-        headers: { Authorization: `Bearer ${conn.accessToken ?? ''}` },
-        responseType: 'stream',
-        timeout: 30000, // 30 second timeout
+    // names are claimed before the first await, so that they are handed out in the order of the input rows
+    const folders = this.byParent ? [row.LinkedEntityId, ...(this.sharedParents.get(contentVersionId) ?? [])] : [''];
+    const name = this.fileNameTemplate.claim(row, ext, folders);
+    const fileName = this.byParent ? path.join(row.LinkedEntityId, name) : name;
+    if (this.byParent) {
+      this.sharedCopies.set(contentVersionId, {
+        fileName,
+        sharedNames: folders.slice(1).map((parentId) => {
+          const sharedName = path.join(parentId, name);
+          return this.isOnDisk(sharedName, outputDir)
+            ? this.claimSharedName(fileName, parentId, outputDir)
+            : sharedName;
+        }),
       });
+    }
 
-      const fileName = ext ? `${contentVersionId}.${ext}` : contentVersionId;
-      const outputFilePath = path.join(outputDir, `${fileName}`);
-      writer = fs.createWriteStream(outputFilePath);
-
-      await new Promise<void>((resolve, reject) => {
-        if (!response || !writer) {
-          reject(new Error('Response or writer not initialized'));
-          return;
-        }
-
-        writer.on('finish', resolve);
-        writer.on('error', reject);
+    const conn = this.targetOrg.getConnection(this.apiVersion);
+    const outputFilePath = path.join(outputDir, `${fileName}`);
+    FileExport.ensureOutputDirectory(path.dirname(outputFilePath));
 
-        response.data.on('error', (err) => {
-          reject(new Error(`Stream error: ${err.message}`));
-        });
+    const downloadPath = fileName === replacing ? `${outputFilePath}.partial` : outputFilePath;
 
-        response.data.pipe(writer);
-      });
-    } catch (err) {
-      // Clean up resources in case of error so the process doesn't hang
-      if (axios.isAxiosError(err)) {
-        (err?.response?.data as Readable).destroy();
-      }
-      if (writer) {
-        writer.end();
-      }
-      throw err;
+    const size = await withRetry((attempt) => {
+      onAttempt(attempt);
+      return downloadToFile(conn, contentVersionId, downloadPath, this.checksums.get(contentVersionId));
+    }, this.retryOptions);
+    if (downloadPath !== outputFilePath) {
+      fs.renameSync(downloadPath, outputFilePath);
     }
+    return { fileName, size };
   }
 }
@@ -1,29 +1,49 @@
+import crypto from 'node:crypto';
 import fs from 'node:fs/promises';
 import efs from 'node:fs';
 import path from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
 import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
 import { Messages, Org } from '@salesforce/core';
 import csvParser from 'csv-parser';
-import axios, { AxiosError } from 'axios';
-import FormData from 'form-data';
+import { AxiosError } from 'axios';
 import { v4 as uuidv4 } from 'uuid';
-import pLimit from 'p-limit';
 import { Parser } from 'json2csv';
+import {
+  BinaryPart,
+  CompositeError,
+  ContentVersionRequest,
+  DocumentLink,
+  ExistingVersion,
+  PublishLocation,
+  SaveResult,
+  findDuplicate,
+  insertContentVersion,
+  insertContentVersions,
+  insertDocumentLinks,
+  queryVersionsByChecksum,
+  toFieldValues,
+} from '../../shared/contentVersions.js';
+import { RetryOptions } from '../../shared/retry.js';
+import { monitorRequests } from '../../shared/httpClient.js';
+import { ApiBudget, ApiBudgetExhaustedError, parseMaxApiCalls } from '../../shared/apiBudget.js';
+import { Concurrency, LimitFunction, createLimit, parseConcurrency } from '../../shared/adaptiveLimit.js';
+import { Batch, packBatches, saveWithRetry, uploadBatches } from '../../shared/uploads.js';
+import { listSourceFiles } from '../../shared/sourceDirectory.js';
+import { ZipReader } from '../../shared/zipArchive.js';
+import { detectContentType, readHead } from '../../shared/contentTypes.js';
+import { ImportProblem, ImportValidator, LINK_COLUMN } from '../../shared/importValidator.js';
+import { isErrorColumn } from '../../shared/errorFile.js';
+import { inChunks, quote, readCsv } from '../../shared/records.js';
 
 Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
 const messages = Messages.loadMessages('@neatflow/fileops', 'fileops.import');
-const MAX_SUBREQUESTS = 190; // composite api can have max 200 subrequests. We reduce it by 10 to be safe
-
-type Result = {
-  success: boolean;
-  id: string;
-  errors: string[];
-};
-
-type AxiosResponse = {
-  data: Result[];
-  headers: Record<string, string>;
-};
+const MAX_CONCURRENCY = 12;
+const LINK_CHUNK_SIZE = 200; // sObject collections api can insert max 200 records per call
+const STAT_CHUNK_SIZE = 50; // files stat-ed at once while the csv is read
+const FOLDER_LOOKUP = /^\w+(:\w+)?\.\w+$/;
+const PUBLISH_LOCATION_LOOKUP = /^FirstPublishLocation:(\w+)\.(\w+)$/i;
 
 type CSVRow = {
   VersionData: string;
@@ -31,35 +51,101 @@ type CSVRow = {
   PathOnClient: string;
 } & Record<string, string>;
 
-type CompositeError = {
-  message: string;
-  statusCode: string;
-  fields: string[];
-};
-
-type UploadResult = {
+export type UploadResult = {
   success: boolean;
   title: string;
   versionData: string;
+  id?: string;
+  contentDocumentId?: string;
+  versionNumber?: string;
   error?: string;
   statusText?: string;
   fields?: string;
+  attempts?: number;
+  // the file is already in the org, `id` and `contentDocumentId` are those of the existing version
+  skipped?: boolean;
+};
+
+// a row that could not be uploaded, written to the error file with its input columns
+type FailedRow = {
+  row: CSVRow;
+  result: UploadResult;
+};
+
+type PendingUpload = {
+  row: CSVRow;
+  record: ContentVersionRequest;
+  contentType: string;
+};
+
+/**
+ * A row of the csv with the size of its file, or the error the file could not be read with.
+ */
+type StatedRow = {
+  row: CSVRow;
+  size: number;
+  error?: Error;
+};
+
+/**
+ * A record to share an uploaded file with. The record is either given by Id, or looked up by an external id field.
+ */
+type LinkTarget = {
+  linkedEntityId?: string;
+  objectName?: string;
+  fieldName?: string;
+  value?: string;
+  shareType: string;
+  visibility: string;
+};
+
+type PendingLinks = {
+  result: UploadResult;
+  targets: LinkTarget[];
+};
+
+type LinkFailure = {
+  title: string;
+  versionData: string;
+  linkedEntity: string;
+  error: string;
+  statusText?: string;
+};
+
+type LinkSubject = Omit<LinkFailure, 'error' | 'statusText'>;
+
+type CreatedVersion = {
+  Id: string;
+  ContentDocumentId: string;
+  VersionNumber: string;
+};
+
+/**
+ * What `--dry-run` found: the batches the files would be uploaded in and every problem with the csv.
+ */
+export type ImportPlan = {
+  batches: number;
+  individualUploads: number;
+  totalBytes: number;
+  batchPlan: PlannedBatch[];
+  problems: ImportProblem[];
+};
+
+export type PlannedBatch = {
+  files: number;
+  bytes: number;
+  single: boolean;
 };
 
 export type FileImportResult = {
   total: number;
   success: number;
+  skipped?: number;
+  results: UploadResult[];
+  plan?: ImportPlan;
 };
 
-type ContentVersionRequest = {
-  attributes: {
-    type: 'ContentVersion';
-    binaryPartName: string;
-    binaryPartNameAlias: string;
-  };
-  Title: string;
-  PathOnClient: string;
-};
+type BatchResult = Omit<FileImportResult, 'results'>;
 
 export default class FileImport extends SfCommand<FileImportResult> {
   public static readonly summary = messages.getMessage('summary');
@@ -71,8 +157,36 @@ export default class FileImport extends SfCommand<FileImportResult> {
       summary: messages.getMessage('flags.file.summary'),
       description: messages.getMessage('flags.file.description'),
       char: 'f',
-      required: true,
       exists: true,
+      exactlyOne: ['file', 'source-dir'],
+    }),
+    'source-dir': Flags.directory({
+      summary: messages.getMessage('flags.source-dir.summary'),
+      description: messages.getMessage('flags.source-dir.description'),
+      char: 'd',
+      exists: true,
+      exactlyOne: ['file', 'source-dir'],
+    }),
+    recursive: Flags.boolean({
+      summary: messages.getMessage('flags.recursive.summary'),
+      char: 'r',
+      dependsOn: ['source-dir'],
+    }),
+    include: Flags.string({
+      summary: messages.getMessage('flags.include.summary'),
+      description: messages.getMessage('flags.include.description'),
+      multiple: true,
+      dependsOn: ['source-dir'],
+    }),
+    exclude: Flags.string({
+      summary: messages.getMessage('flags.exclude.summary'),
+      multiple: true,
+      dependsOn: ['source-dir'],
+    }),
+    'folder-lookup': Flags.string({
+      summary: messages.getMessage('flags.folder-lookup.summary'),
+      description: messages.getMessage('flags.folder-lookup.description'),
+      dependsOn: ['source-dir'],
     }),
     'batch-size': Flags.integer({
       summary: messages.getMessage('flags.batch-size.summary'),
@@ -82,62 +196,184 @@ export default class FileImport extends SfCommand<FileImportResult> {
       max: 40,
       min: 1,
     }),
-    concurrency: Flags.integer({
-      summary: 'Number of parallel batches',
+    concurrency: Flags.custom<Concurrency>({
+      summary: messages.getMessage('flags.concurrency.summary'),
+      description: messages.getMessage('flags.concurrency.description'),
       char: 'c',
       default: 3,
-      max: 12,
-      min: 1,
+      parse: parseConcurrency(MAX_CONCURRENCY),
+    })(),
+    'max-api-calls': Flags.custom<number>({
+      summary: messages.getMessage('flags.max-api-calls.summary'),
+      description: messages.getMessage('flags.max-api-calls.description'),
+      parse: parseMaxApiCalls,
+    })(),
+    'max-retries': Flags.integer({
+      summary: messages.getMessage('flags.max-retries.summary'),
+      description: messages.getMessage('flags.max-retries.description'),
+      default: 3,
+      min: 0,
+      max: 10,
+    }),
+    'document-key': Flags.string({
+      summary: messages.getMessage('flags.document-key.summary'),
+      description: messages.getMessage('flags.document-key.description'),
+      char: 'k',
+    }),
+    'results-file': Flags.file({
+      summary: messages.getMessage('flags.results-file.summary'),
+      description: messages.getMessage('flags.results-file.description'),
+    }),
+    'error-file': Flags.file({
+      summary: messages.getMessage('flags.error-file.summary'),
+      description: messages.getMessage('flags.error-file.description'),
+    }),
+    'links-file': Flags.file({
+      summary: messages.getMessage('flags.links-file.summary'),
+      description: messages.getMessage('flags.links-file.description'),
+      char: 'l',
+      exists: true,
     }),
+    'share-type': Flags.option({
+      summary: messages.getMessage('flags.share-type.summary'),
+      options: ['V', 'C', 'I'] as const,
+      default: 'V',
+    })(),
+    visibility: Flags.option({
+      summary: messages.getMessage('flags.visibility.summary'),
+      options: ['AllUsers', 'InternalUsers', 'SharedUsers'] as const,
+      default: 'AllUsers',
+    })(),
+    'dry-run': Flags.boolean({
+      summary: messages.getMessage('flags.dry-run.summary'),
+      description: messages.getMessage('flags.dry-run.description'),
+    }),
+    'skip-duplicates': Flags.boolean({
+      summary: messages.getMessage('flags.skip-duplicates.summary'),
+      description: messages.getMessage('flags.skip-duplicates.description'),
+    }),
+    'duplicate-scope': Flags.option({
+      summary: messages.getMessage('flags.duplicate-scope.summary'),
+      description: messages.getMessage('flags.duplicate-scope.description'),
+      options: ['org', 'parent'] as const,
+      dependsOn: ['skip-duplicates'],
+    })(),
     'target-org': Flags.requiredOrg(),
+    'api-version': Flags.orgApiVersion(),
   };
 
   protected static requiresUsername = true;
   private targetOrg!: Org;
+  private apiVersion?: string;
   private totalProcessed: number = 0;
-  private errLog: UploadResult[] = [];
+  // failed rows not yet appended to the error file
+  private failedRows: FailedRow[] = [];
+  private failures = 0;
+  private errorFile = '';
+  // columns of the error file, set when its first rows are written
+  private errorFields?: string[];
+  private errorsWrite = Promise.resolve();
+  // results of the rows being uploaded, released along with the rows
+  private rowResults = new WeakMap<CSVRow, UploadResult>();
+  // results of every row for the --json output, by row index, so that the rows can be released once uploaded
+  private results: UploadResult[] = [];
+  private rowIndexes = new WeakMap<CSVRow, number>();
+  private rowsRead = 0;
+  private skipped = 0;
+  private resultsFile?: string;
+  private resultsWritten = false;
+  private resultsWrite = Promise.resolve();
+  private documentKey?: string;
+  private linksByFile = new Map<string, LinkTarget[]>();
+  private linkErrLog: LinkFailure[] = [];
+  private linkCount = 0;
+  private shareType = 'V';
+  private visibility = 'AllUsers';
+  private retryOptions: RetryOptions = { maxRetries: 0 };
+  private budget = new ApiBudget();
+  // the zip archive the files are read from, when the import csv is in one
+  private archive?: ZipReader;
 
-  private static async createBatches(rows: CSVRow[], maxBatchSize: number): Promise<CSVRow[][]> {
-    const batches: CSVRow[][] = [];
-    let currentBatch: CSVRow[] = [];
-    let currentBatchSize = 0;
-    let currentBatchFiles = 0;
+  /**
+   * Passes the rows whose file could not be read to `onUnreadable` and yields the others.
+   */
+  private static async *readableFiles(
+    files: AsyncIterable<StatedRow>,
+    onUnreadable: (file: StatedRow) => void
+  ): AsyncGenerator<StatedRow> {
+    for await (const file of files) {
+      if (file.error) {
+        onUnreadable(file);
+      } else {
+        yield file;
+      }
+    }
+  }
 
-    await Promise.all(
-      rows.map(async (row) => {
-        try {
-          const fileStats = await fs.stat(row.VersionData);
-          const fileSize = fileStats.size;
-
-          if (fileSize + currentBatchSize > maxBatchSize || currentBatchFiles >= MAX_SUBREQUESTS) {
-            // one composite request can have max 200 subrequests
-            batches.push(currentBatch);
-            currentBatch = [];
-            currentBatchSize = 0;
-            currentBatchFiles = 0;
+  /**
+   * Stats the files of the rows a chunk at a time, so that a large csv does not open every file at once.
+   */
+  private static async *statFiles(
+    rows: AsyncIterable<CSVRow>,
+    sizeOf: (versionData: string) => Promise<number>
+  ): AsyncGenerator<StatedRow> {
+    const statChunk = (chunk: CSVRow[]): Promise<StatedRow[]> =>
+      Promise.all(
+        chunk.map(async (row) => {
+          try {
+            return { row, size: await sizeOf(row.VersionData) };
+          } catch (error) {
+            return { row, size: 0, error: error as Error };
           }
+        })
+      );
 
-          currentBatch.push(row);
-          currentBatchSize += fileSize;
-          currentBatchFiles++;
-        } catch (error) {
-          throw new Error(`Error processing file ${row.VersionData}: ${(error as Error).message}`);
-        }
-      })
-    );
+    let chunk: CSVRow[] = [];
+    for await (const row of rows) {
+      chunk.push(row);
+      if (chunk.length >= STAT_CHUNK_SIZE) {
+        yield* await statChunk(chunk);
+        chunk = [];
+      }
+    }
+    yield* await statChunk(chunk);
+  }
+
+  private static async fileSize(filePath: string): Promise<number> {
+    const fileStats = await fs.stat(filePath);
+    if (!fileStats.isFile()) {
+      throw new Error('Not a file');
+    }
+    return fileStats.size;
+  }
 
-    if (currentBatch.length > 0) {
-      batches.push(currentBatch);
+  /**
+   * The name of the archive entry a `VersionData` path refers to. Paths are relative to the root of the archive.
+   */
+  private static entryName(versionData: string): string {
+    return path.posix.normalize(versionData.replace(/\\/g, '/')).replace(/^\//, '');
+  }
+
+  private static async readHeader(stream: Readable): Promise<string> {
+    let header = '';
+    for await (const chunk of stream) {
+      header += String(chunk);
+      const end = header.indexOf('\n');
+      if (end >= 0) {
+        stream.destroy();
+        return header.slice(0, end);
+      }
     }
-    return batches;
+    return header;
   }
 
   private static fixCSVRowCase(row: Record<string, string>): CSVRow {
-    const props = ['VersionData', 'Title', 'PathOnClient'];
+    const props = ['VersionData', 'Title', 'PathOnClient', 'ContentDocumentId', 'ReasonForChange', 'ContentType'];
     const lowerCaseProps = props.map((p) => p.toLowerCase());
     const ret: CSVRow = { VersionData: '', Title: '', PathOnClient: '' };
     for (const prop in row) {
-      if (Object.hasOwn(row, prop)) {
+      // the error columns of an error file passed back for a retry
+      if (Object.hasOwn(row, prop) && !isErrorColumn(prop)) {
         const index = lowerCaseProps.indexOf(prop.toLowerCase());
         if (index >= 0) {
           ret[props[index]] = row[prop];
@@ -149,189 +385,834 @@ export default class FileImport extends SfCommand<FileImportResult> {
     return ret;
   }
 
-  private static getContentTypeFromFileName(fileName: string): string {
-    const ext = path.extname(fileName).toLowerCase();
-    switch (ext) {
-      case '.jpg':
-      case '.jpeg':
-        return 'image/jpeg';
-      case '.png':
-        return 'image/png';
-      case '.pdf':
-        return 'application/pdf';
-      case '.txt':
-        return 'text/plain';
-      case '.csv':
-        return 'text/csv';
-      case '.zip':
-        return 'application/zip';
-      default:
-        return 'application/octet-stream';
+  private static describeLinkTarget(target: LinkTarget): string {
+    return target.linkedEntityId ?? `${target.objectName ?? ''}.${target.fieldName ?? ''} = ${target.value ?? ''}`;
+  }
+
+  private static async md5(stream: Readable): Promise<string> {
+    const hash = crypto.createHash('md5');
+    await pipeline(stream, hash);
+    return hash.digest('hex');
+  }
+
+  /**
+   * The record the file of a row is published to, from a `FirstPublishLocationId` or
+   * `FirstPublishLocation:<ParentObject>.<ParentField>` column.
+   */
+  private static publishLocation(row: CSVRow): PublishLocation | undefined {
+    for (const [column, value] of Object.entries(row)) {
+      const lookup = PUBLISH_LOCATION_LOOKUP.exec(column);
+      if (!value) {
+        continue;
+      } else if (column.toLowerCase() === 'firstpublishlocationid') {
+        return { id: value };
+      } else if (lookup) {
+        return { objectName: lookup[1], fieldName: lookup[2], value };
+      }
     }
+    return undefined;
   }
 
   public async run(): Promise<FileImportResult> {
     const { flags } = await this.parse(FileImport);
     this.targetOrg = flags['target-org'];
+    this.apiVersion = flags['api-version'];
+    this.documentKey = flags['document-key'];
+    this.shareType = flags['share-type'];
+    this.visibility = flags.visibility;
+    this.retryOptions = {
+      maxRetries: flags['max-retries'],
+      onRetry: (error, attempt, delayMs) =>
+        this.debug(`Retrying after ${delayMs}ms, attempt ${attempt} failed: ${(error as Error).message}`),
+    };
     const batchSizeBytes = flags['batch-size'] * 1024 * 1024;
-    const concurrencyLimit = pLimit(flags.concurrency);
-    const csvFilePath = flags.file;
+    const conn = this.targetOrg.getConnection(this.apiVersion);
+    this.budget = new ApiBudget(flags['max-api-calls']);
+    monitorRequests(conn, this.budget);
+    const concurrencyLimit = createLimit(conn, flags.concurrency, MAX_CONCURRENCY);
 
     try {
-      const rows: CSVRow[] = [];
-
-      // First collect all rows synchronously
-      await new Promise<void>((resolve, reject) => {
-        efs
-          .createReadStream(csvFilePath)
-          .pipe(csvParser())
-          .on('data', (row: Record<string, string>) => rows.push(FileImport.fixCSVRowCase(row)))
-          .on('end', () => resolve())
-          .on('error', reject);
-      });
+      if (flags['links-file']) {
+        await this.readLinksFile(flags['links-file']);
+      }
+      const rows = flags['source-dir']
+        ? this.readSourceDir(flags['source-dir'], flags.recursive, flags.include, flags.exclude, flags['folder-lookup'])
+        : this.readRows(await this.openCsv(flags.file as string));
+      const files = FileImport.statFiles(rows, (versionData) => this.sizeOf(versionData));
+      if (flags['dry-run']) {
+        return await this.dryRun(files, batchSizeBytes);
+      }
 
-      const batches = await FileImport.createBatches(rows, batchSizeBytes);
       this.progress.start(0, {}, { title: 'Uploading {percentage}% | {value}/{total} files' });
-      this.progress.setTotal(rows.length);
-
       await this.targetOrg.refreshAuth();
+      this.resultsFile = flags['results-file'];
+      this.errorFile = flags['error-file'] ?? 'errors' + Date.now() + '.csv';
 
-      const uploadTasks = batches.map((batch) => concurrencyLimit(() => this.processBatch(batch)));
-
-      const batchResults = await Promise.all(uploadTasks);
-      const finalResult = batchResults.reduce((acc, curr) => ({
-        total: acc.total + curr.total,
-        success: acc.success + curr.success,
-      }));
+      // batches are read only this far ahead of the uploads, so that memory use does not grow with the csv
+      const maxQueued = 2 * (flags.concurrency === 'auto' ? MAX_CONCURRENCY : flags.concurrency);
+      const uploads = flags['skip-duplicates'] ? this.skipDuplicates(files, flags['duplicate-scope'] ?? 'org') : files;
+      const counts = await this.uploadBatches(uploads, batchSizeBytes, concurrencyLimit, maxQueued);
+      await this.resultsWrite;
+      const finalResult: FileImportResult = {
+        ...counts,
+        total: counts.total + this.skipped,
+        ...(flags['skip-duplicates'] ? { skipped: this.skipped } : {}),
+        results: this.results,
+      };
 
       this.progress.finish();
       this.log('File import completed');
-      this.log(`Total: ${finalResult.total}, Success: ${finalResult.success}, Failures: ${this.errLog.length}`);
-      await this.writeFailuresToCsv();
+      this.log(`Total: ${finalResult.total}, Success: ${finalResult.success}, Failures: ${this.failures}`);
+      if (flags['skip-duplicates']) {
+        this.log(`Skipped ${this.skipped} file(s) already in the org`);
+      }
+      if (this.budget.exhausted) {
+        this.warn(
+          `Stopped early, ${
+            this.budget.exhaustedReason ?? ''
+          }. The files that were not uploaded are reported as errors.`
+        );
+      }
+      if (flags['max-api-calls'] !== undefined) {
+        this.log(`API calls made: ${this.budget.calls}`);
+      }
+      if (this.linkCount > 0 || this.linkErrLog.length > 0) {
+        this.log(`Links created: ${this.linkCount}, Link failures: ${this.linkErrLog.length}`);
+      }
+      if (this.resultsFile && this.resultsWritten) {
+        this.log(`Results written to ${this.resultsFile}`);
+      }
+      this.writeFailures();
+      await this.errorsWrite;
+      if (this.failures > 0) {
+        this.log(`Errors written to ${this.errorFile}`);
+      }
+      await this.writeLinkFailuresToCsv();
       return finalResult;
     } catch (error) {
       this.progress.finish();
       throw error;
+    } finally {
+      this.archive?.close();
     }
   }
 
-  private async writeFailuresToCsv(): Promise<void> {
-    if (this.errLog.length === 0) {
-      return;
+  /**
+   * Reads the rows of the csv one at a time, remembering the position of each row.
+   */
+  private async *readRows(csv: Readable): AsyncGenerator<CSVRow> {
+    for await (const record of csv.pipe(csvParser())) {
+      const row = FileImport.fixCSVRowCase(record as Record<string, string>);
+      this.rowIndexes.set(row, this.rowsRead++);
+      yield row;
     }
-    this.debug(JSON.stringify(this.errLog, null, 2));
-    const fileName = 'errors' + Date.now() + '.csv';
-    const parser = new Parser();
-    const csv = parser.parse(this.errLog);
-    await fs.writeFile(fileName, csv);
-    this.log(`Errors written to ${fileName}`);
   }
 
-  private async processBatch(batch: CSVRow[]): Promise<FileImportResult> {
-    const results: UploadResult[] = [];
-    const conn = this.targetOrg.getConnection();
-    const formData = new FormData();
-    const apiVersion = conn.getApiVersion();
-
-    const records: ContentVersionRequest[] = [];
-    const binaryParts = batch.map((row) => {
-      const partName = uuidv4();
-      const { VersionData, Title, PathOnClient, ...theRest } = row;
-      const otherProps: Record<string, string | object> = {};
-      for (const [key, value] of Object.entries(theRest)) {
-        if (!key.includes('.')) {
-          otherProps[key] = value;
-          continue;
-        }
+  /**
+   * Opens the import csv. For a zip archive, that is the csv in the root folder of the archive with a `VersionData`
+   * column, and the files are read from the archive.
+   */
+  private async openCsv(filePath: string): Promise<Readable> {
+    if (!filePath.toLowerCase().endsWith('.zip')) {
+      return efs.createReadStream(filePath);
+    }
 
-        const [fieldNamePart, parentFieldName] = key.split('.');
-        const [fieldName, parentObject] = fieldNamePart.includes(':')
-          ? fieldNamePart.split(':')
-          : [fieldNamePart, null];
+    const archive = await ZipReader.open(filePath);
+    const rootCsvEntries = archive
+      .list()
+      .filter((entry) => !entry.name.includes('/') && entry.name.toLowerCase().endsWith('.csv'));
+    const headers = await Promise.all(
+      rootCsvEntries.map(async (entry) => FileImport.readHeader(archive.openEntry(entry)))
+    );
+    const csvEntries = rootCsvEntries.filter((_, index) => headers[index].toLowerCase().includes('versiondata'));
+    if (csvEntries.length !== 1) {
+      archive.close();
+      throw messages.createError(csvEntries.length === 0 ? 'error.noArchiveCsv' : 'error.ambiguousArchiveCsv', [
+        filePath,
+        csvEntries.map((entry) => entry.name).join(', '),
+      ]);
+    }
+    this.archive = archive;
+    return archive.openEntry(csvEntries[0]);
+  }
 
-        if (parentObject) {
-          otherProps[fieldName] = { attributes: { type: parentObject }, [parentFieldName]: value };
-        } else {
-          otherProps[fieldName] = {
-            [parentFieldName]: value,
-          };
+  private sizeOf(versionData: string): Promise<number> {
+    if (!this.archive) {
+      return FileImport.fileSize(versionData);
+    }
+    const entry = this.archive.get(FileImport.entryName(versionData));
+    return entry
+      ? Promise.resolve(entry.size)
+      : Promise.reject(Object.assign(new Error(`${versionData} is not in the archive`), { code: 'ENOENT' }));
+  }
+
+  /**
+   * Lists the files of the source directory as rows, with the file name as `PathOnClient` and the file name without
+   * its extension as `Title`. With a folder lookup, the name of the top-level folder a file is in is the value of the
+   * lookup column.
+   */
+  private async *readSourceDir(
+    directory: string,
+    recursive: boolean,
+    include?: string[],
+    exclude?: string[],
+    folderLookup?: string
+  ): AsyncGenerator<CSVRow> {
+    if (folderLookup && !FOLDER_LOOKUP.test(folderLookup)) {
+      throw messages.createError('error.invalidFolderLookup', [folderLookup]);
+    }
+    for await (const file of listSourceFiles(directory, { recursive, include, exclude })) {
+      const fileName = path.basename(file.path);
+      const row: CSVRow = { VersionData: file.path, Title: path.parse(fileName).name, PathOnClient: fileName };
+      if (folderLookup) {
+        const folders = file.relativePath.split('/').slice(0, -1);
+        row[folderLookup] = folders[0] ?? '';
+      }
+      this.rowIndexes.set(row, this.rowsRead++);
+      yield row;
+    }
+  }
+
+  /**
+   * Leaves out the files whose content is already in the org, by the MD5 checksum of the latest ContentVersions. With
+   * the `parent` scope, only versions published to the same record as the row count, for rows that name the record.
+   * The skipped rows are reported with the Ids of the existing version.
+   */
+  private async *skipDuplicates(files: AsyncIterable<StatedRow>, scope: 'org' | 'parent'): AsyncGenerator<StatedRow> {
+    let chunk: StatedRow[] = [];
+    for await (const file of files) {
+      chunk.push(file);
+      if (chunk.length >= STAT_CHUNK_SIZE) {
+        yield* await this.withoutDuplicates(chunk, scope);
+        chunk = [];
+      }
+    }
+    yield* await this.withoutDuplicates(chunk, scope);
+  }
+
+  private async withoutDuplicates(stated: StatedRow[], scope: 'org' | 'parent'): Promise<StatedRow[]> {
+    // files that cannot be read are reported by the upload, along with the error of reading them
+    const checked = await Promise.all(
+      stated.map(async (file): Promise<[StatedRow, string?]> => {
+        if (file.error) {
+          return [file];
         }
+        try {
+          return [file, await FileImport.md5(this.openFile(file.row))];
+        } catch (error) {
+          return [{ ...file, error: error as Error }];
+        }
+      })
+    );
+    const files = checked.map(([file]) => file);
+    const checksums = checked.map(([, checksum]) => checksum);
+    const locations = files.map(({ row }) => (scope === 'parent' ? FileImport.publishLocation(row) : undefined));
+    let versions: Map<string, ExistingVersion[]>;
+    try {
+      versions = await queryVersionsByChecksum(
+        this.targetOrg.getConnection(this.apiVersion),
+        [...new Set(checksums.filter((checksum): checksum is string => checksum !== undefined))],
+        locations.filter((location): location is PublishLocation => location !== undefined)
+      );
+    } catch (error) {
+      if (!(error instanceof ApiBudgetExhaustedError)) {
+        throw error;
       }
+      // once the budget is used up, the upload reports the files as not attempted
+      return files;
+    }
 
-      records.push({
-        attributes: {
-          type: 'ContentVersion',
-          binaryPartName: partName,
-          binaryPartNameAlias: 'VersionData',
-        },
-        Title,
-        PathOnClient,
-        ...otherProps,
+    const skipped: CSVRow[] = [];
+    const kept = files.filter(({ row }, index) => {
+      const checksum = checksums[index];
+      const duplicate = checksum ? findDuplicate(versions.get(checksum), locations[index]) : undefined;
+      if (!duplicate) {
+        return true;
+      }
+      this.skipped++;
+      skipped.push(row);
+      this.report(row, {
+        success: true,
+        skipped: true,
+        title: row.Title,
+        versionData: row.VersionData,
+        id: duplicate.Id,
+        contentDocumentId: duplicate.ContentDocumentId,
+        versionNumber: duplicate.VersionNumber,
       });
+      return false;
+    });
+    this.writeResults(skipped);
+    return kept;
+  }
 
-      return {
-        partName,
-        versionData: VersionData,
-        filePath: PathOnClient,
-        contentType: FileImport.getContentTypeFromFileName(PathOnClient),
-      };
+  /**
+   * Uploads the batches as they are read from the csv, with no more than `maxQueued` batches waiting for a slot.
+   */
+  private async uploadBatches(
+    files: AsyncIterable<StatedRow>,
+    batchSizeBytes: number,
+    concurrencyLimit: LimitFunction,
+    maxQueued: number
+  ): Promise<BatchResult> {
+    const counts: BatchResult = { total: 0, success: 0 };
+    let singleUploads = 0;
+
+    const readable = FileImport.readableFiles(files, ({ row, error }) => {
+      counts.total++;
+      this.report(row, {
+        success: false,
+        title: row.Title,
+        versionData: row.VersionData,
+        error: `Error processing file ${row.VersionData}: ${error?.message ?? ''}`,
+      });
+    });
+    await uploadBatches(packBatches(readable, batchSizeBytes), concurrencyLimit, maxQueued, async (batch) => {
+      this.progress.setTotal(this.rowsRead);
+      singleUploads += batch.single ? 1 : 0;
+      const result = await this.processBatch(batch);
+      counts.total += result.total;
+      counts.success += result.success;
+      this.writeResults(batch.rows);
+      this.writeFailures();
     });
+    this.progress.setTotal(this.rowsRead);
+
+    if (singleUploads > 0) {
+      this.log(`${singleUploads} file(s) larger than the batch size were uploaded individually`);
+    }
+    return counts;
+  }
+
+  /**
+   * Validates the csv against the org and plans the batches without uploading anything. Only describe calls are made.
+   */
+  private async dryRun(files: AsyncIterable<StatedRow>, batchSizeBytes: number): Promise<FileImportResult> {
+    const validator = new ImportValidator(this.targetOrg.getConnection(this.apiVersion));
+    const plan: ImportPlan = { batches: 0, individualUploads: 0, totalBytes: 0, batchPlan: [], problems: [] };
+    let filesFound = 0;
+
+    const batches = packBatches(
+      FileImport.readableFiles(this.validateFiles(files, validator, plan), () => undefined),
+      batchSizeBytes
+    );
+    for await (const batch of batches) {
+      plan.batches++;
+      plan.individualUploads += batch.single ? 1 : 0;
+      plan.batchPlan.push({ files: batch.rows.length, bytes: batch.size, single: batch.single });
+      plan.totalBytes += batch.size;
+      filesFound += batch.rows.length;
+    }
+    if (this.rowsRead === 0) {
+      plan.problems.push(...(await validator.validateColumns([])));
+    }
+
+    const { problems } = plan;
+    this.log('Dry run, no files were uploaded.');
+    this.log(`Rows: ${this.rowsRead}, Files found: ${filesFound}, Total size: ${plan.totalBytes} bytes`);
+    this.log(`Planned batches: ${plan.batches}, Individual uploads: ${plan.individualUploads}`);
+    plan.batchPlan.forEach((batch, index) =>
+      this.log(
+        `  Batch ${index + 1}: ${batch.files} file(s), ${batch.bytes} bytes${
+          batch.single ? ', uploaded individually' : ''
+        }`
+      )
+    );
+    if (problems.length === 0) {
+      this.log('No problems found.');
+    } else {
+      this.warn(`${problems.length} problem(s) found:`);
+      for (const { line, column, versionData, problem } of problems) {
+        const location = [line ? `line ${line}` : undefined, column, versionData].filter(Boolean).join(', ');
+        this.log(`  ${location}: ${problem}`);
+      }
+    }
+    return { total: this.rowsRead, success: 0, results: [], plan };
+  }
 
+  /**
+   * Adds the problems with the columns, checked with the first row, and with the values and file of every row to the
+   * plan.
+   */
+  private async *validateFiles(
+    files: AsyncIterable<StatedRow>,
+    validator: ImportValidator,
+    plan: ImportPlan
+  ): AsyncGenerator<StatedRow> {
+    for await (const file of files) {
+      const { row, error } = file;
+      const index = this.rowIndexes.get(row) ?? 0;
+      const line = index + 2; // the header is line 1
+      if (index === 0) {
+        plan.problems.push(...(await validator.validateColumns(Object.keys(row))));
+      }
+      plan.problems.push(...validator.validateValues(row, line));
+      if (!row.VersionData) {
+        plan.problems.push({ line, column: 'VersionData', problem: 'VersionData is empty' });
+      } else if (error) {
+        const problem = (error as NodeJS.ErrnoException).code === 'ENOENT' ? 'File not found' : error.message;
+        plan.problems.push({ line, column: 'VersionData', versionData: row.VersionData, problem });
+      }
+      yield file;
+    }
+  }
+
+  /**
+   * Appends the rows that failed since the last call to the error file, with their input columns, so that the error
+   * file can be imported again with `--file`. The file is created with the first row that fails.
+   */
+  private writeFailures(): void {
+    if (this.failedRows.length === 0) {
+      return;
+    }
+    this.debug(JSON.stringify(this.failedRows, null, 2));
+    const failed = this.failedRows.map(({ row, result }) => ({
+      ...row,
+      Error: result.error,
+      ErrorStatusText: result.statusText,
+      ErrorFields: result.fields,
+      Attempts: result.attempts,
+    }));
+    this.failedRows = [];
+    const header = !this.errorFields;
+    this.errorFields ??= Object.keys(failed[0]);
+    const csv = new Parser({ fields: this.errorFields, header }).parse(failed);
+    const errorFile = this.errorFile;
+    this.errorsWrite = this.errorsWrite.then(() =>
+      header ? fs.writeFile(errorFile, csv) : fs.appendFile(errorFile, '\n' + csv)
+    );
+  }
+
+  private async writeLinkFailuresToCsv(): Promise<void> {
+    if (this.linkErrLog.length === 0) {
+      return;
+    }
+    const fileName = 'linkErrors' + Date.now() + '.csv';
+    const parser = new Parser({ fields: ['title', 'versionData', 'linkedEntity', 'error', 'statusText'] });
+    await fs.writeFile(fileName, parser.parse(this.linkErrLog));
+    this.log(`Link errors written to ${fileName}`);
+  }
+
+  /**
+   * Appends the rows of a batch that were uploaded successfully to the results file, with the Ids of the created
+   * records. The file is created with the first row that succeeds.
+   */
+  private writeResults(rows: CSVRow[]): void {
+    const resultsFile = this.resultsFile;
+    if (!resultsFile) {
+      return;
+    }
+    const succeeded = rows.flatMap((row) => {
+      const result = this.resultOf(row);
+      return result?.success
+        ? [
+            {
+              ...row,
+              ContentVersionId: result.id,
+              ContentDocumentId: result.contentDocumentId,
+              VersionNumber: result.versionNumber,
+            },
+          ]
+        : [];
+    });
+    if (succeeded.length === 0) {
+      return;
+    }
+    const header = !this.resultsWritten;
+    this.resultsWritten = true;
+    const csv = new Parser({ header }).parse(succeeded);
+    this.resultsWrite = this.resultsWrite.then(() =>
+      header ? fs.writeFile(resultsFile, csv) : fs.appendFile(resultsFile, '\n' + csv)
+    );
+  }
+
+  private resultOf(row: CSVRow): UploadResult | undefined {
+    return this.rowResults.get(row);
+  }
+
+  /**
+   * Records the outcome of uploading a row and advances the progress bar.
+   */
+  private report(row: CSVRow, result: UploadResult): void {
+    this.rowResults.set(row, result);
+    if (this.jsonEnabled()) {
+      this.results[this.rowIndexes.get(row) ?? this.results.length] = result;
+    }
+    if (!result.success) {
+      this.failures++;
+      this.failedRows.push({ row, result });
+    }
+    this.progress.update(this.totalProcessed++);
+  }
+
+  /**
+   * Reads the links file, which lists additional records to share the uploaded files with. Each row has the
+   * `VersionData` of a file in the import csv, the `LinkedEntityId` and, optionally, `ShareType` and `Visibility`.
+   */
+  private async readLinksFile(linksFilePath: string): Promise<void> {
+    for (const row of await readCsv(linksFilePath)) {
+      const values = Object.fromEntries(Object.entries(row).map(([key, value]) => [key.toLowerCase(), value]));
+      if (!values.versiondata || !values.linkedentityid) {
+        continue;
+      }
+      const key = path.resolve(values.versiondata);
+      const targets = this.linksByFile.get(key) ?? [];
+      targets.push({
+        linkedEntityId: values.linkedentityid,
+        shareType: values.sharetype || this.shareType,
+        visibility: values.visibility || this.visibility,
+      });
+      this.linksByFile.set(key, targets);
+    }
+  }
+
+  /**
+   * Separates the `Link:<Object>.<ExtField>` columns from the ContentVersion fields of a row. A link column may list
+   * several external ids separated by semicolons. Links from the links file are added to the ones from the columns.
+   */
+  private splitLinkColumns(row: CSVRow, columns: Record<string, string>): [Record<string, string>, LinkTarget[]] {
+    const fields: Record<string, string> = {};
+    const targets: LinkTarget[] = [];
+    for (const [key, value] of Object.entries(columns)) {
+      const match = LINK_COLUMN.exec(key);
+      if (!match) {
+        fields[key] = value;
+        continue;
+      }
+      value
+        .split(';')
+        .map((v) => v.trim())
+        .filter((v) => v !== '')
+        .forEach((v) =>
+          targets.push({
+            objectName: match[1],
+            fieldName: match[2],
+            value: v,
+            shareType: this.shareType,
+            visibility: this.visibility,
+          })
+        );
+    }
+    targets.push(...(this.linksByFile.get(path.resolve(row.VersionData)) ?? []));
+    return [fields, targets];
+  }
+
+  /**
+   * Looks up the Ids of the records that are linked by an external id field, keyed by `<Object>.<Field>` and value.
+   */
+  private async resolveLinkTargets(targets: LinkTarget[]): Promise<Map<string, Map<string, string>>> {
+    const values = new Map<string, Set<string>>();
+    for (const { objectName, fieldName, value } of targets) {
+      if (objectName && fieldName && value) {
+        const key = `${objectName}.${fieldName}`;
+        values.set(key, (values.get(key) ?? new Set()).add(value));
+      }
+    }
+
+    const conn = this.targetOrg.getConnection(this.apiVersion);
+    const resolved = await Promise.all(
+      [...values].map(async ([key, keyValues]) => {
+        const [objectName, fieldName] = key.split('.');
+        const results = await Promise.all(
+          inChunks([...keyValues]).map(async (valueList) =>
+            conn.query<Record<string, string>>(
+              `SELECT Id, ${fieldName} FROM ${objectName} WHERE ${fieldName} IN (${quote(valueList)})`,
+              { autoFetch: true, maxFetch: Infinity }
+            )
+          )
+        );
+        const ids = new Map(
+          results.flatMap((result) => result.records).map((record) => [record[fieldName], record.Id])
+        );
+        return [key, ids] as const;
+      })
+    );
+    return new Map(resolved);
+  }
+
+  /**
+   * Creates the ContentDocumentLinks for the files uploaded in a batch. Link failures are reported separately from
+   * upload failures, since the file itself was uploaded.
+   */
+  private async createLinks(pending: PendingLinks[]): Promise<void> {
+    const candidates = pending.flatMap(({ result, targets }) =>
+      targets.map((target) => ({
+        target,
+        contentDocumentId: result.contentDocumentId,
+        subject: {
+          title: result.title,
+          versionData: result.versionData,
+          linkedEntity: FileImport.describeLinkTarget(target),
+        },
+      }))
+    );
+    const fail = (subject: LinkSubject, error: string, statusText?: string): void => {
+      this.linkErrLog.push({ ...subject, error, statusText });
+    };
+
+    let resolved: Map<string, Map<string, string>>;
     try {
-      formData.append('collection', JSON.stringify({ allOrNone: false, records }), { contentType: 'application/json' });
-
-      // Add files to form data
-      await Promise.all(
-        binaryParts.map(({ partName, versionData, filePath, contentType }) => {
-          formData.append(partName, efs.createReadStream(versionData), {
-            filename: path.basename(filePath),
-            contentType,
+      resolved = await this.resolveLinkTargets(candidates.map(({ target }) => target));
+    } catch (error) {
+      candidates.forEach(({ subject }) => fail(subject, (error as Error).message));
+      return;
+    }
+
+    const links: Array<{ link: DocumentLink; subject: LinkSubject }> = [];
+    for (const { target, contentDocumentId, subject } of candidates) {
+      const linkedEntityId =
+        target.linkedEntityId ??
+        resolved.get(`${target.objectName ?? ''}.${target.fieldName ?? ''}`)?.get(target.value ?? '');
+      if (!contentDocumentId) {
+        fail(subject, 'The ContentDocumentId of the uploaded file is not known');
+      } else if (!linkedEntityId) {
+        fail(subject, `No ${target.objectName ?? ''} found with ${target.fieldName ?? ''} = ${target.value ?? ''}`);
+      } else {
+        links.push({
+          link: {
+            ContentDocumentId: contentDocumentId,
+            LinkedEntityId: linkedEntityId,
+            ShareType: target.shareType,
+            Visibility: target.visibility,
+          },
+          subject,
+        });
+      }
+    }
+
+    const conn = this.targetOrg.getConnection(this.apiVersion);
+    await Promise.all(
+      inChunks(links, LINK_CHUNK_SIZE).map(async (chunk) => {
+        try {
+          const response = await insertDocumentLinks(
+            conn,
+            chunk.map(({ link }) => link)
+          );
+          response.forEach((saveResult, index) => {
+            if (saveResult.success) {
+              this.linkCount++;
+            } else {
+              fail(chunk[index].subject, saveResult.errors[0].message, saveResult.errors[0].statusCode);
+            }
           });
+        } catch (error) {
+          const axErr: AxiosError = error as AxiosError;
+          chunk.forEach(({ subject }) => fail(subject, axErr.message, axErr.response?.statusText));
+        }
+      })
+    );
+  }
+
+  /**
+   * Finds the document that rows without a ContentDocumentId should become a new version of, by matching the
+   * `--document-key` field against the latest versions of existing documents.
+   */
+  private async lookupDocumentIds(batch: CSVRow[]): Promise<Map<string, string>> {
+    const documentIds = new Map<string, string>();
+    const keyField = this.documentKey;
+    if (!keyField) {
+      return documentIds;
+    }
+
+    const keys = [
+      ...new Set(batch.filter((row) => !row.ContentDocumentId && row[keyField]).map((row) => row[keyField])),
+    ];
+    const conn = this.targetOrg.getConnection(this.apiVersion);
+    const results = await Promise.all(
+      inChunks(keys).map(async (keyList) =>
+        conn.query<Record<string, string>>(
+          `SELECT ContentDocumentId, ${keyField} FROM ContentVersion WHERE IsLatest = true AND ${keyField} IN (${quote(
+            keyList
+          )})`,
+          { autoFetch: true, maxFetch: Infinity }
+        )
+      )
+    );
+    results
+      .flatMap((result) => result.records)
+      .forEach((record) => documentIds.set(record[keyField], record.ContentDocumentId));
+    return documentIds;
+  }
+
+  /**
+   * Reads back the document Id and version number of the ContentVersions created for a batch.
+   */
+  private async queryCreatedVersions(ids: string[]): Promise<Map<string, CreatedVersion>> {
+    if (ids.length === 0) {
+      return new Map();
+    }
+    const conn = this.targetOrg.getConnection(this.apiVersion);
+    const result = await conn.query<CreatedVersion>(
+      `SELECT Id, ContentDocumentId, VersionNumber FROM ContentVersion WHERE Id IN (${quote(ids)})`,
+      { autoFetch: true, maxFetch: Infinity }
+    );
+    return new Map(result.records.map((record) => [record.Id, record]));
+  }
+
+  private openFile(row: CSVRow): Readable {
+    const entry = this.archive?.get(FileImport.entryName(row.VersionData));
+    return this.archive && entry ? this.archive.openEntry(entry) : efs.createReadStream(row.VersionData);
+  }
+
+  /**
+   * The content type recognised from the start of the file and its `PathOnClient`.
+   */
+  private async contentTypeOf(row: CSVRow): Promise<string> {
+    let head: Buffer = Buffer.alloc(0);
+    try {
+      head = await readHead(this.openFile(row));
+    } catch (error) {
+      // the upload reports files that cannot be read
+      this.debug(`Could not read the start of ${row.VersionData}: ${(error as Error).message}`);
+    }
+    return detectContentType(row.PathOnClient, head);
+  }
+
+  /**
+   * Sends the files with one request. The streams are opened per request, so that the same rows can be sent again.
+   */
+  private async upload(pending: PendingUpload[], single: boolean): Promise<SaveResult[]> {
+    const conn = this.targetOrg.getConnection(this.apiVersion);
+    const records = pending.map(({ record }) => record);
+    const binaryParts: BinaryPart[] = pending.map(({ row, record, contentType }) => ({
+      partName: record.attributes.binaryPartName,
+      open: () => this.openFile(row),
+      fileName: path.basename(row.PathOnClient),
+      contentType,
+      knownLength: this.archive?.get(FileImport.entryName(row.VersionData))?.size,
+    }));
+    return single
+      ? [await insertContentVersion(conn, records[0], binaryParts[0])]
+      : insertContentVersions(conn, records, binaryParts);
+  }
+
+  private async processBatch({ rows: batch, single }: Batch<CSVRow>): Promise<BatchResult> {
+    const results: UploadResult[] = [];
+    const uploaded: PendingUpload[] = [];
+    const linkTargets = new Map<CSVRow, LinkTarget[]>();
+    const pendingLinks: PendingLinks[] = [];
+    let attempts = 0;
+
+    const exhaustedReason = this.budget.exhaustedReason;
+    if (exhaustedReason) {
+      batch.forEach((row) =>
+        this.report(row, {
+          success: false,
+          title: row.Title,
+          versionData: row.VersionData,
+          error: `Not attempted, ${exhaustedReason}`,
+          attempts,
         })
       );
+      return { total: batch.length, success: 0 };
+    }
 
-      const response: AxiosResponse = await axios.post(
-        `${conn.instanceUrl}/services/data/v${apiVersion}/composite/sobjects`,
-        formData,
-        {
-          headers: {
-            ...formData.getHeaders(),
-            Authorization: `Bearer ${conn.accessToken ?? ''}`,
-          },
+    try {
+      const documentIds = await this.lookupDocumentIds(batch);
+
+      for (const row of batch) {
+        const partName = uuidv4();
+        const { VersionData, Title, PathOnClient, ContentType, ...columns } = row;
+        const [theRest, targets] = this.splitLinkColumns(row, columns);
+
+        if (!theRest.ContentDocumentId && this.documentKey && row[this.documentKey]) {
+          const contentDocumentId = documentIds.get(row[this.documentKey]);
+          if (!contentDocumentId) {
+            this.report(row, {
+              success: false,
+              title: Title,
+              versionData: VersionData,
+              error: `No existing document found with ${this.documentKey} = ${row[this.documentKey]}`,
+              attempts,
+            });
+            continue;
+          }
+          theRest.ContentDocumentId = contentDocumentId;
         }
+
+        uploaded.push({
+          row,
+          contentType: ContentType,
+          record: {
+            attributes: {
+              type: 'ContentVersion',
+              binaryPartName: partName,
+              binaryPartNameAlias: 'VersionData',
+            },
+            Title,
+            PathOnClient,
+            ...toFieldValues(theRest),
+          },
+        });
+        linkTargets.set(row, targets);
+      }
+      // the content types that are not in the csv are recognised from the files of the whole batch at once
+      const contentTypes = await Promise.all(
+        uploaded.map(({ row, contentType }) => (contentType ? Promise.resolve(contentType) : this.contentTypeOf(row)))
       );
+      const typed = uploaded.map((upload, index) => ({ ...upload, contentType: contentTypes[index] }));
 
-      // Process results
-      response.data.forEach((result, index) => {
+      // rows that failed with a transient error are sent again, without the rows that were saved or failed for good
+      const send = (pending: PendingUpload[], attempt: number): Promise<SaveResult[]> => {
+        attempts = attempt;
+        return this.upload(pending, single);
+      };
+      await saveWithRetry(typed, send, this.retryOptions, ({ row }, result) => {
         if (result.success) {
-          results.push({ success: true, title: batch[index].Title, versionData: batch[index].VersionData });
+          const uploadResult: UploadResult = {
+            success: true,
+            title: row.Title,
+            versionData: row.VersionData,
+            id: result.id,
+          };
+          results.push(uploadResult);
+          this.report(row, uploadResult);
+          const targets = linkTargets.get(row) ?? [];
+          if (targets.length > 0) {
+            pendingLinks.push({ result: uploadResult, targets });
+          }
         } else {
-          const compErr = result.errors[0] as unknown as CompositeError;
-          this.errLog.push({
+          const compErr: CompositeError = result.errors[0];
+          this.report(row, {
             success: false,
-            title: batch[index].Title,
-            versionData: batch[index].VersionData,
+            title: row.Title,
+            versionData: row.VersionData,
             error: compErr.message,
             statusText: compErr.statusCode,
             fields: compErr.fields.join('|'),
+            attempts,
           });
         }
-        this.progress.update(this.totalProcessed++);
       });
+
+      const createdVersions = await this.queryCreatedVersions(results.map((result) => result.id as string));
+      for (const result of results) {
+        const created = createdVersions.get(result.id as string);
+        result.contentDocumentId = created?.ContentDocumentId;
+        result.versionNumber = created?.VersionNumber;
+      }
     } catch (error) {
+      if (batch.every((row) => this.resultOf(row))) {
+        this.warn(`Could not read back the created ContentVersions: ${(error as Error).message}`);
+      }
       batch.forEach((row) => {
+        if (this.resultOf(row)) return;
         const axErr: AxiosError = error as AxiosError;
-        this.errLog.push({
+        this.report(row, {
           success: false,
           title: row.Title,
           versionData: row.VersionData,
           error: axErr.message,
           statusText: axErr.response?.statusText,
+          attempts,
         });
-        this.progress.update(this.totalProcessed++);
       });
     }
 
+    if (pendingLinks.length > 0) {
+      await this.createLinks(pendingLinks);
+    }
+
     return {
       total: batch.length,
       success: results.filter((r) => r.success).length,
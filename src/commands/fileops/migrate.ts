@@ -0,0 +1,513 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import { Messages, Org } from '@salesforce/core';
+import { AxiosError } from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { Parser } from 'json2csv';
+import {
+  BinaryPart,
+  ContentVersionRequest,
+  LazyReadable,
+  SaveResult,
+  downloadVersionData,
+  insertContentVersion,
+  insertContentVersions,
+} from '../../shared/contentVersions.js';
+import { contentTypeFromFileName } from '../../shared/contentTypes.js';
+import { ID_CHUNK_SIZE, inChunks, quote, readCsvRows } from '../../shared/records.js';
+import { RetryOptions, withRetry } from '../../shared/retry.js';
+import { createLimit } from '../../shared/adaptiveLimit.js';
+import { Batch, SizedRow, packBatches, saveWithRetry, uploadBatches } from '../../shared/uploads.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('@neatflow/fileops', 'fileops.migrate');
+const MAX_CONCURRENCY = 12;
+
+type SourceVersion = {
+  Id: string;
+  ContentDocumentId: string;
+  Title: string;
+  PathOnClient: string;
+  ContentSize: number;
+  FirstPublishLocationId: string | null;
+} & Record<string, unknown>;
+
+type ParentMapping = {
+  objectName: string;
+  fieldName: string;
+};
+
+type IdMapping = {
+  sourceContentVersionId: string;
+  sourceContentDocumentId: string;
+  targetContentVersionId: string;
+  targetContentDocumentId: string;
+};
+
+type MigrateError = {
+  sourceContentVersionId: string;
+  title: string;
+  error: string;
+  statusText?: string;
+  fields?: string;
+  attempts?: number;
+};
+
+type PendingVersion = {
+  version: SourceVersion;
+  record: ContentVersionRequest;
+};
+
+export type FileMigrateResult = {
+  total: number;
+  success: number;
+};
+
+export default class FileMigrate extends SfCommand<FileMigrateResult> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    'source-org': Flags.requiredOrg({
+      summary: messages.getMessage('flags.source-org.summary'),
+      char: 's',
+    }),
+    'target-org': Flags.requiredOrg(),
+    'api-version': Flags.orgApiVersion(),
+    file: Flags.file({
+      summary: messages.getMessage('flags.file.summary'),
+      description: messages.getMessage('flags.file.description'),
+      char: 'f',
+      exists: true,
+      exactlyOne: ['file', 'where'],
+    }),
+    where: Flags.string({
+      summary: messages.getMessage('flags.where.summary'),
+      description: messages.getMessage('flags.where.description'),
+      char: 'w',
+      exactlyOne: ['file', 'where'],
+    }),
+    id: Flags.string({
+      summary: messages.getMessage('flags.id.summary'),
+      char: 'i',
+      default: 'Id',
+    }),
+    fields: Flags.string({
+      summary: messages.getMessage('flags.fields.summary'),
+      description: messages.getMessage('flags.fields.description'),
+      multiple: true,
+      delimiter: ',',
+    }),
+    'parent-external-id': Flags.string({
+      summary: messages.getMessage('flags.parent-external-id.summary'),
+      description: messages.getMessage('flags.parent-external-id.description'),
+      char: 'p',
+      multiple: true,
+    }),
+    'mapping-file': Flags.file({
+      summary: messages.getMessage('flags.mapping-file.summary'),
+      description: messages.getMessage('flags.mapping-file.description'),
+      char: 'm',
+    }),
+    'batch-size': Flags.integer({
+      summary: messages.getMessage('flags.batch-size.summary'),
+      description: messages.getMessage('flags.batch-size.description'),
+      char: 'b',
+      default: 30,
+      max: 40,
+      min: 1,
+    }),
+    concurrency: Flags.integer({
+      summary: messages.getMessage('flags.concurrency.summary'),
+      char: 'c',
+      default: 3,
+      max: MAX_CONCURRENCY,
+      min: 1,
+    }),
+    'max-retries': Flags.integer({
+      summary: messages.getMessage('flags.max-retries.summary'),
+      description: messages.getMessage('flags.max-retries.description'),
+      default: 3,
+      min: 0,
+      max: 10,
+    }),
+  };
+
+  protected static requiresUsername = true;
+  private sourceOrg!: Org;
+  private targetOrg!: Org;
+  private apiVersion?: string;
+  private extraFields: string[] = [];
+  // parent object and external id field by the key prefix of the parent object
+  private parentMappings = new Map<string, ParentMapping>();
+  private totalProcessed: number = 0;
+  private versionsRead = 0;
+  private retryOptions: RetryOptions = { maxRetries: 0 };
+  // id mappings and failures since the last write to their files
+  private idMappings: IdMapping[] = [];
+  private errLog: MigrateError[] = [];
+  private mappingFile = '';
+  private mappingsWritten = false;
+  private errorFile = '';
+  private errorsWritten = false;
+  private failures = 0;
+  private writes = Promise.resolve();
+
+  private static async *sized(versions: AsyncIterable<SourceVersion>): AsyncGenerator<SizedRow<SourceVersion>> {
+    for await (const version of versions) {
+      yield { row: version, size: version.ContentSize };
+    }
+  }
+
+  public async run(): Promise<FileMigrateResult> {
+    const { flags } = await this.parse(FileMigrate);
+    this.sourceOrg = flags['source-org'];
+    this.targetOrg = flags['target-org'];
+    this.apiVersion = flags['api-version'];
+    this.extraFields = flags.fields ?? [];
+    this.retryOptions = {
+      maxRetries: flags['max-retries'],
+      onRetry: (error, attempt, delayMs) =>
+        this.debug(`Retrying after ${delayMs}ms, attempt ${attempt} failed: ${(error as Error).message}`),
+    };
+    const batchSizeBytes = flags['batch-size'] * 1024 * 1024;
+
+    if (this.sourceOrg.getUsername() === this.targetOrg.getUsername()) {
+      throw messages.createError('error.sameOrg');
+    }
+
+    await this.sourceOrg.refreshAuth();
+    await this.targetOrg.refreshAuth();
+    await this.describeParentMappings(flags['parent-external-id'] ?? []);
+    const concurrencyLimit = createLimit(
+      this.targetOrg.getConnection(this.apiVersion),
+      flags.concurrency,
+      MAX_CONCURRENCY
+    );
+    this.mappingFile = flags['mapping-file'] ?? `mapping${Date.now()}.csv`;
+    this.errorFile = 'errors' + Date.now() + '.csv';
+
+    const finalResult: FileMigrateResult = { total: 0, success: 0 };
+    let singleUploads = 0;
+    try {
+      this.progress.start(0, {}, { title: 'Migrating {percentage}% | {value}/{total} files' });
+      const versions = FileMigrate.sized(this.querySourceVersions(flags.file, flags.where, flags.id));
+      // the source versions are read only this far ahead of the uploads, so that memory use does not grow with them
+      const maxQueued = 2 * flags.concurrency;
+      await uploadBatches(packBatches(versions, batchSizeBytes), concurrencyLimit, maxQueued, async (batch) => {
+        this.progress.setTotal(this.versionsRead);
+        singleUploads += batch.single ? 1 : 0;
+        const result = await this.migrateBatch(batch);
+        finalResult.total += result.total;
+        finalResult.success += result.success;
+        this.writeIdMappings();
+        this.writeFailures();
+      });
+      this.progress.finish();
+      await this.writes;
+    } catch (error) {
+      this.progress.finish();
+      // the id mappings and failures of the batches migrated before the error are written out all the same
+      await this.writes.catch(() => undefined);
+      throw error;
+    }
+
+    if (finalResult.total === 0) {
+      this.log('No files found to migrate.');
+      return finalResult;
+    }
+    this.log('File migration completed');
+    this.log(`Total: ${finalResult.total}, Success: ${finalResult.success}, Failures: ${this.failures}`);
+    if (singleUploads > 0) {
+      this.log(`${singleUploads} file(s) larger than the batch size were uploaded individually`);
+    }
+    if (this.mappingsWritten) {
+      this.log(`Id mappings written to ${this.mappingFile}`);
+    }
+    if (this.failures > 0) {
+      this.log(`Errors written to ${this.errorFile}`);
+    }
+    return finalResult;
+  }
+
+  /**
+   * Finds the key prefix of each parent object, so that the object of a FirstPublishLocationId can be told from the
+   * Id alone.
+   */
+  private async describeParentMappings(parentExternalIds: string[]): Promise<void> {
+    const conn = this.sourceOrg.getConnection(this.apiVersion);
+    const mappings = parentExternalIds.map((parentExternalId) => {
+      const [objectName, fieldName] = parentExternalId.split('.');
+      if (!objectName || !fieldName) {
+        throw messages.createError('error.invalidParentExternalId', [parentExternalId]);
+      }
+      return { objectName, fieldName };
+    });
+    const describes = await Promise.all(mappings.map(async ({ objectName }) => conn.describe(objectName)));
+    describes.forEach((describe, index) => {
+      if (describe.keyPrefix) {
+        this.parentMappings.set(describe.keyPrefix, mappings[index]);
+      }
+    });
+  }
+
+  /**
+   * Yields the versions to migrate as the pages of the query, or of one query per chunk of Ids in the csv, are read.
+   */
+  private async *querySourceVersions(
+    csvFilePath: string | undefined,
+    where: string | undefined,
+    idFieldName: string
+  ): AsyncGenerator<SourceVersion> {
+    const fields = [
+      'Id',
+      'ContentDocumentId',
+      'Title',
+      'PathOnClient',
+      'ContentSize',
+      'FirstPublishLocationId',
+      ...this.extraFields,
+    ];
+    const select = `SELECT ${[...new Set(fields)].join(', ')} FROM ContentVersion`;
+
+    if (where) {
+      yield* this.queryVersions(`${select} WHERE ${where}`);
+      return;
+    }
+
+    let ids: string[] = [];
+    for await (const row of readCsvRows(csvFilePath as string)) {
+      if (row[idFieldName]) ids.push(row[idFieldName]);
+      if (ids.length >= ID_CHUNK_SIZE) {
+        yield* this.queryVersions(`${select} WHERE Id IN (${quote(ids)})`);
+        ids = [];
+      }
+    }
+    if (ids.length > 0) {
+      yield* this.queryVersions(`${select} WHERE Id IN (${quote(ids)})`);
+    }
+  }
+
+  /**
+   * Runs the query against the source org and yields the versions page by page. A page that fails with a transient
+   * error is read again.
+   */
+  private async *queryVersions(soql: string): AsyncGenerator<SourceVersion> {
+    const conn = this.sourceOrg.getConnection(this.apiVersion);
+    let result = await withRetry(async () => conn.query<SourceVersion>(soql), this.retryOptions);
+    while (true) {
+      this.versionsRead += result.records.length;
+      yield* result.records;
+      if (result.done || !result.nextRecordsUrl) {
+        break;
+      }
+      const { nextRecordsUrl } = result;
+      // eslint-disable-next-line no-await-in-loop
+      result = await withRetry(async () => conn.queryMore<SourceVersion>(nextRecordsUrl), this.retryOptions);
+    }
+  }
+
+  /**
+   * Looks up the external id values of the parents of the given versions in the source org.
+   */
+  private async lookupParentExternalIds(batch: SourceVersion[]): Promise<Map<string, string>> {
+    const conn = this.sourceOrg.getConnection(this.apiVersion);
+    const queries = [...this.parentMappings].flatMap(([keyPrefix, { objectName, fieldName }]) => {
+      const parentIds = [
+        ...new Set(
+          batch
+            .map((version) => version.FirstPublishLocationId)
+            .filter((id): id is string => Boolean(id?.startsWith(keyPrefix)))
+        ),
+      ];
+      return inChunks(parentIds).map(async (idList) => {
+        const result = await conn.query<Record<string, string>>(
+          `SELECT Id, ${fieldName} FROM ${objectName} WHERE Id IN (${quote(idList)})`,
+          { autoFetch: true, maxFetch: Infinity }
+        );
+        return result.records
+          .filter((record) => record[fieldName])
+          .map((record): [string, string] => [record.Id, record[fieldName]]);
+      });
+    });
+    return new Map((await Promise.all(queries)).flat());
+  }
+
+  private toContentVersionRequest(
+    version: SourceVersion,
+    partName: string,
+    parentExternalIds: Map<string, string>
+  ): ContentVersionRequest {
+    const request: ContentVersionRequest = {
+      attributes: {
+        type: 'ContentVersion',
+        binaryPartName: partName,
+        binaryPartNameAlias: 'VersionData',
+      },
+      Title: version.Title,
+      PathOnClient: version.PathOnClient,
+    };
+
+    for (const field of this.extraFields) {
+      request[field] = version[field];
+    }
+
+    const parentId = version.FirstPublishLocationId;
+    const mapping = parentId ? this.parentMappings.get(parentId.slice(0, 3)) : undefined;
+    const externalId = parentId ? parentExternalIds.get(parentId) : undefined;
+    if (mapping && externalId) {
+      request.FirstPublishLocation = {
+        attributes: { type: mapping.objectName },
+        [mapping.fieldName]: externalId,
+      };
+    }
+    return request;
+  }
+
+  /**
+   * Sends the versions with one request, downloading their data from the source org as the request is sent. The
+   * downloads are started again for each request, so that the same versions can be sent again.
+   */
+  private async upload(pending: PendingVersion[], single: boolean): Promise<SaveResult[]> {
+    const sourceConn = this.sourceOrg.getConnection(this.apiVersion);
+    const targetConn = this.targetOrg.getConnection(this.apiVersion);
+    const records = pending.map(({ record }) => record);
+    const binaryParts: BinaryPart[] = pending.map(({ version, record }) => ({
+      partName: record.attributes.binaryPartName,
+      open: () => new LazyReadable(() => downloadVersionData(sourceConn, version.Id)),
+      fileName: path.basename(version.PathOnClient),
+      contentType: contentTypeFromFileName(version.PathOnClient),
+      knownLength: version.ContentSize,
+    }));
+    return single
+      ? [await insertContentVersion(targetConn, records[0], binaryParts[0])]
+      : insertContentVersions(targetConn, records, binaryParts);
+  }
+
+  private async migrateBatch({ rows: batch, single }: Batch<SourceVersion>): Promise<FileMigrateResult> {
+    const created: Array<{ version: SourceVersion; id: string }> = [];
+    const reported = new Set<SourceVersion>();
+    let attempts = 0;
+
+    try {
+      const parentExternalIds = await this.lookupParentExternalIds(batch);
+      const pending: PendingVersion[] = batch.map((version) => ({
+        version,
+        record: this.toContentVersionRequest(version, uuidv4(), parentExternalIds),
+      }));
+
+      // versions that failed with a transient error are sent again, without the ones that were saved or failed for good
+      const send = (versions: PendingVersion[], attempt: number): Promise<SaveResult[]> => {
+        attempts = attempt;
+        return this.upload(versions, single);
+      };
+      await saveWithRetry(pending, send, this.retryOptions, ({ version }, result) => {
+        if (result.success) {
+          created.push({ version, id: result.id });
+        } else {
+          const compErr = result.errors[0];
+          this.errLog.push({
+            sourceContentVersionId: version.Id,
+            title: version.Title,
+            error: compErr.message,
+            statusText: compErr.statusCode,
+            fields: compErr.fields.join('|'),
+            attempts,
+          });
+          this.failures++;
+        }
+        reported.add(version);
+        this.progress.update(this.totalProcessed++);
+      });
+
+      await this.recordIdMappings(created);
+    } catch (error) {
+      if (batch.every((version) => reported.has(version))) {
+        this.warn(`Could not read back the created ContentVersions: ${(error as Error).message}`);
+      }
+      const axErr: AxiosError = error as AxiosError;
+      batch
+        .filter((version) => !reported.has(version))
+        .forEach((version) => {
+          this.errLog.push({
+            sourceContentVersionId: version.Id,
+            title: version.Title,
+            error: axErr.message,
+            statusText: axErr.response?.statusText,
+            attempts,
+          });
+          this.failures++;
+          this.progress.update(this.totalProcessed++);
+        });
+    }
+
+    return { total: batch.length, success: created.length };
+  }
+
+  private async recordIdMappings(created: Array<{ version: SourceVersion; id: string }>): Promise<void> {
+    if (created.length === 0) return;
+
+    const targetConn = this.targetOrg.getConnection(this.apiVersion);
+    const result = await targetConn.query<{ Id: string; ContentDocumentId: string }>(
+      `SELECT Id, ContentDocumentId FROM ContentVersion WHERE Id IN (${quote(created.map(({ id }) => id))})`,
+      { autoFetch: true, maxFetch: Infinity }
+    );
+    const documentIds = new Map(result.records.map((record) => [record.Id, record.ContentDocumentId]));
+
+    for (const { version, id } of created) {
+      this.idMappings.push({
+        sourceContentVersionId: version.Id,
+        sourceContentDocumentId: version.ContentDocumentId,
+        targetContentVersionId: id,
+        targetContentDocumentId: documentIds.get(id) ?? '',
+      });
+    }
+  }
+
+  /**
+   * Appends the id mappings of the versions migrated since the last call to the mapping file. The file is created with
+   * the first version that is migrated.
+   */
+  private writeIdMappings(): void {
+    if (this.idMappings.length === 0) {
+      return;
+    }
+    const header = !this.mappingsWritten;
+    this.mappingsWritten = true;
+    const parser = new Parser({
+      fields: [
+        'sourceContentVersionId',
+        'sourceContentDocumentId',
+        'targetContentVersionId',
+        'targetContentDocumentId',
+      ],
+      header,
+    });
+    this.appendCsv(this.mappingFile, parser.parse(this.idMappings), header);
+    this.idMappings = [];
+  }
+
+  /**
+   * Appends the versions that failed since the last call to the error file, which is created with the first failure.
+   */
+  private writeFailures(): void {
+    if (this.errLog.length === 0) {
+      return;
+    }
+    this.debug(JSON.stringify(this.errLog, null, 2));
+    const header = !this.errorsWritten;
+    this.errorsWritten = true;
+    const parser = new Parser({
+      fields: ['sourceContentVersionId', 'title', 'error', 'statusText', 'fields', 'attempts'],
+      header,
+    });
+    this.appendCsv(this.errorFile, parser.parse(this.errLog), header);
+    this.errLog = [];
+  }
+
+  private appendCsv(fileName: string, csv: string, header: boolean): void {
+    this.writes = this.writes.then(() => (header ? fs.writeFile(fileName, csv) : fs.appendFile(fileName, '\n' + csv)));
+  }
+}
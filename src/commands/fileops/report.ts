@@ -0,0 +1,207 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import { Messages, Org } from '@salesforce/core';
+import { Parser } from 'json2csv';
+import { ReportFile, ReportVersion, SizeGroup, StorageReport } from '../../shared/storageReport.js';
+import { ID_CHUNK_SIZE, quote } from '../../shared/records.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('@neatflow/fileops', 'fileops.report');
+
+type VersionRecord = Omit<ReportVersion, 'OwnerName'> & {
+  Owner: { Name: string } | null;
+};
+
+type LinkRecord = {
+  ContentDocumentId: string;
+  LinkedEntity: { Type: string } | null;
+};
+
+export type FileReportResult = {
+  documents: number;
+  versions: number;
+  totalBytes: number;
+  topFiles: ReportFile[];
+  byObjectType: SizeGroup[];
+  byYear: SizeGroup[];
+  byFileType: SizeGroup[];
+};
+
+export default class FileReport extends SfCommand<FileReportResult> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    where: Flags.string({
+      summary: messages.getMessage('flags.where.summary'),
+      description: messages.getMessage('flags.where.description'),
+      char: 'w',
+    }),
+    top: Flags.integer({
+      summary: messages.getMessage('flags.top.summary'),
+      char: 'n',
+      default: 10,
+      min: 1,
+    }),
+    'output-dir': Flags.directory({
+      summary: messages.getMessage('flags.output-dir.summary'),
+      description: messages.getMessage('flags.output-dir.description'),
+      char: 'd',
+    }),
+    format: Flags.option({
+      summary: messages.getMessage('flags.format.summary'),
+      options: ['csv', 'json'] as const,
+      default: 'csv',
+    })(),
+    'target-org': Flags.requiredOrg(),
+    'api-version': Flags.orgApiVersion(),
+  };
+
+  protected static requiresUsername = true;
+  private targetOrg!: Org;
+  private apiVersion?: string;
+
+  private static groupColumns(name: string): Array<{ key: keyof SizeGroup; name: string }> {
+    return [
+      { key: 'name', name },
+      { key: 'files', name: 'Files' },
+      { key: 'bytes', name: 'Bytes' },
+    ];
+  }
+
+  public async run(): Promise<FileReportResult> {
+    const { flags } = await this.parse(FileReport);
+    this.targetOrg = flags['target-org'];
+    this.apiVersion = flags['api-version'];
+    const report = new StorageReport(flags.top);
+
+    const where = flags.where ? ` WHERE ${flags.where}` : '';
+    for await (const version of this.queryRecords<VersionRecord>(
+      'SELECT Id, ContentDocumentId, Title, FileExtension, FileType, ContentSize, CreatedDate, Owner.Name ' +
+        `FROM ContentVersion${where}`
+    )) {
+      report.addVersion({
+        Id: version.Id,
+        ContentDocumentId: version.ContentDocumentId,
+        Title: version.Title,
+        FileExtension: version.FileExtension,
+        FileType: version.FileType,
+        ContentSize: version.ContentSize,
+        CreatedDate: version.CreatedDate,
+        OwnerName: version.Owner?.Name ?? null,
+      });
+    }
+
+    const documentIds = report.documentIds();
+    for (let i = 0; i < documentIds.length; i += ID_CHUNK_SIZE) {
+      const soql =
+        'SELECT ContentDocumentId, LinkedEntity.Type FROM ContentDocumentLink ' +
+        `WHERE ContentDocumentId IN (${quote(documentIds.slice(i, i + ID_CHUNK_SIZE))})`;
+      // eslint-disable-next-line no-await-in-loop -- the chunks are read one page at a time, like the versions
+      for await (const link of this.queryRecords<LinkRecord>(soql)) {
+        report.addLink(link.ContentDocumentId, link.LinkedEntity?.Type);
+      }
+    }
+
+    const result: FileReportResult = {
+      documents: report.documents,
+      versions: report.versions,
+      totalBytes: report.bytes,
+      topFiles: report.topFiles(),
+      byObjectType: report.byObjectType(),
+      byYear: report.byYear(),
+      byFileType: report.byFileType(),
+    };
+    this.display(result);
+    if (flags['output-dir']) {
+      await this.writeReport(result, flags['output-dir'], flags.format);
+    }
+    return result;
+  }
+
+  /**
+   * Runs the query against the target org and yields each record, following `nextRecordsUrl` until all pages have
+   * been read, so that only one page of records is held in memory at a time. The report still keeps the size and the
+   * linked object types of every document, see `StorageReport`.
+   */
+  private async *queryRecords<T extends Record<string, unknown>>(soql: string): AsyncGenerator<T> {
+    const conn = this.targetOrg.getConnection(this.apiVersion);
+    let result = await conn.query<T>(soql);
+    while (true) {
+      yield* result.records;
+      if (result.done || !result.nextRecordsUrl) {
+        break;
+      }
+      // eslint-disable-next-line no-await-in-loop
+      result = await conn.queryMore<T>(result.nextRecordsUrl);
+    }
+  }
+
+  private display(result: FileReportResult): void {
+    this.log(
+      `Files: ${result.documents} documents, ${result.versions} versions, Total size: ${result.totalBytes} bytes`
+    );
+    this.table({
+      title: `Top ${result.topFiles.length} largest files`,
+      data: result.topFiles,
+      columns: [
+        'Id',
+        'Title',
+        'FileExtension',
+        { key: 'ContentSize', name: 'Bytes' },
+        { key: 'ObjectTypes', name: 'Object Types' },
+      ],
+    });
+    this.table({
+      title: 'Size by object type',
+      data: result.byObjectType,
+      columns: FileReport.groupColumns('Object Type'),
+    });
+    this.table({ title: 'Size by year', data: result.byYear, columns: FileReport.groupColumns('Year') });
+    this.table({ title: 'Size by file type', data: result.byFileType, columns: FileReport.groupColumns('File Type') });
+  }
+
+  /**
+   * Writes the report to the output directory, as one csv file per breakdown or as a single json file.
+   */
+  private async writeReport(result: FileReportResult, outputDir: string, format: 'csv' | 'json'): Promise<void> {
+    await fs.mkdir(outputDir, { recursive: true });
+    if (format === 'json') {
+      await fs.writeFile(path.join(outputDir, 'report.json'), JSON.stringify(result, null, 2));
+    } else {
+      const topFileFields = [
+        'Id',
+        'ContentDocumentId',
+        'Title',
+        'FileExtension',
+        'FileType',
+        'ContentSize',
+        'CreatedDate',
+        'OwnerName',
+        'ObjectTypes',
+      ];
+      const groupFields = ['name', 'files', 'bytes'];
+      await Promise.all([
+        fs.writeFile(
+          path.join(outputDir, 'top-files.csv'),
+          new Parser({ fields: topFileFields }).parse(result.topFiles)
+        ),
+        fs.writeFile(
+          path.join(outputDir, 'size-by-object-type.csv'),
+          new Parser({ fields: groupFields }).parse(result.byObjectType)
+        ),
+        fs.writeFile(
+          path.join(outputDir, 'size-by-year.csv'),
+          new Parser({ fields: groupFields }).parse(result.byYear)
+        ),
+        fs.writeFile(
+          path.join(outputDir, 'size-by-file-type.csv'),
+          new Parser({ fields: groupFields }).parse(result.byFileType)
+        ),
+      ]);
+    }
+    this.log(`Report written to ${outputDir}`);
+  }
+}
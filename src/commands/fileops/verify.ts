@@ -0,0 +1,129 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import { Messages } from '@salesforce/core';
+import { Parser } from 'json2csv';
+import pLimit from 'p-limit';
+import { ExportManifest } from '../../shared/exportManifest.js';
+import { VersionChecksum, queryChecksums } from '../../shared/contentVersions.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('@neatflow/fileops', 'fileops.verify');
+const HASH_CONCURRENCY = 8; // files read and hashed at once
+
+type VerifyFailure = {
+  id: string;
+  fileName: string;
+  problem: string;
+  expectedSize?: number;
+  actualSize?: number;
+  expectedChecksum?: string;
+  actualChecksum?: string;
+};
+
+export type FileVerifyResult = {
+  total: number;
+  verified: number;
+  failures: VerifyFailure[];
+};
+
+export default class FileVerify extends SfCommand<FileVerifyResult> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    'output-dir': Flags.directory({
+      summary: messages.getMessage('flags.output-dir.summary'),
+      char: 'd',
+      required: true,
+      exists: true,
+    }),
+    'target-org': Flags.requiredOrg(),
+    'api-version': Flags.orgApiVersion(),
+  };
+
+  protected static requiresUsername = true;
+
+  private static async md5File(filePath: string): Promise<string> {
+    const hash = crypto.createHash('md5');
+    await pipeline(fs.createReadStream(filePath), hash);
+    return hash.digest('hex');
+  }
+
+  /**
+   * Compares an exported file with the size and checksum of its ContentVersion. Returns undefined when they match.
+   */
+  private static async verifyFile(
+    id: string,
+    fileName: string,
+    outputDir: string,
+    expected: VersionChecksum | undefined
+  ): Promise<VerifyFailure | undefined> {
+    const filePath = path.join(outputDir, fileName);
+    if (!expected) {
+      return { id, fileName, problem: 'ContentVersion not found in the org' };
+    }
+    if (!fs.existsSync(filePath)) {
+      return { id, fileName, problem: 'File is missing' };
+    }
+    const actualSize = fs.statSync(filePath).size;
+    const actualChecksum = await FileVerify.md5File(filePath);
+    if (actualSize === expected.ContentSize && actualChecksum === expected.Checksum) {
+      return undefined;
+    }
+    return {
+      id,
+      fileName,
+      problem: actualSize === expected.ContentSize ? 'Checksum mismatch' : 'Size mismatch',
+      expectedSize: expected.ContentSize,
+      actualSize,
+      expectedChecksum: expected.Checksum,
+      actualChecksum,
+    };
+  }
+
+  public async run(): Promise<FileVerifyResult> {
+    const { flags } = await this.parse(FileVerify);
+    const outputDir = flags['output-dir'];
+
+    if (!ExportManifest.exists(outputDir)) {
+      throw messages.createError('error.noManifest', [outputDir, ExportManifest.FILE_NAME]);
+    }
+
+    const manifest = await ExportManifest.open(outputDir, true);
+    const entries = manifest.completedEntries();
+    const conn = flags['target-org'].getConnection(flags['api-version']);
+    const checksums = await queryChecksums(
+      conn,
+      entries.map((entry) => entry.id)
+    );
+
+    this.progress.start(entries.length, {}, { title: 'Verifying files' });
+    const limit = pLimit(HASH_CONCURRENCY);
+    let checked = 0;
+    const checkedFiles = await Promise.all(
+      entries.map(({ id, fileName }) =>
+        limit(async () => {
+          const failure = await FileVerify.verifyFile(id, fileName, outputDir, checksums.get(id));
+          this.progress.update(++checked);
+          return failure;
+        })
+      )
+    );
+    const failures = checkedFiles.filter((failure): failure is VerifyFailure => failure !== undefined);
+    this.progress.finish();
+
+    const verified = entries.length - failures.length;
+    this.log(`Verified ${verified} of ${entries.length} exported files.`);
+    if (failures.length > 0) {
+      const fileName = 'verify' + Date.now() + '.csv';
+      fs.writeFileSync(fileName, new Parser().parse(failures));
+      this.warn(`${failures.length} files did not match the org. Details written to ${fileName}`);
+    }
+
+    return { total: entries.length, verified, failures };
+  }
+}
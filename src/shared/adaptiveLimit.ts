@@ -0,0 +1,137 @@
+import { Connection } from '@salesforce/core';
+import axios from 'axios';
+import pLimit from 'p-limit';
+import { RequestMonitor, monitorRequests } from './httpClient.js';
+
+export type Concurrency = number | 'auto';
+
+/**
+ * Runs a task once a slot is free, like the function returned by pLimit.
+ */
+export type LimitFunction = <T>(task: () => Promise<T>) => Promise<T>;
+
+const INITIAL_CONCURRENCY = 2;
+// throughput must improve by this much for the concurrency to keep growing
+const IMPROVEMENT_THRESHOLD = 1.05;
+
+/**
+ * Parses the value of a `--concurrency` flag, which is either a number up to `max` or `auto`.
+ */
+export function parseConcurrency(max: number): (input: string) => Promise<Concurrency> {
+  return (input: string) => {
+    if (input === 'auto') {
+      return Promise.resolve('auto');
+    }
+    const value = Number(input);
+    if (!Number.isInteger(value) || value < 1 || value > max) {
+      return Promise.reject(new Error(`Expected a number between 1 and ${max}, or auto, but received: ${input}`));
+    }
+    return Promise.resolve(value);
+  };
+}
+
+/**
+ * True for responses that show the org is overloaded or throttling the client.
+ */
+function isThrottling(error: unknown): boolean {
+  if (!axios.isAxiosError(error) || !error.response) {
+    return false;
+  }
+  const data: unknown = error.response.data;
+  return (
+    error.response.status === 429 ||
+    error.response.status >= 500 ||
+    (Array.isArray(data) &&
+      data.some((apiError: { errorCode?: string }) => apiError.errorCode === 'REQUEST_LIMIT_EXCEEDED'))
+  );
+}
+
+/**
+ * Limits the number of tasks running at once, adjusting the limit as the tasks run. The limit starts low and grows by
+ * one for as long as each window of completed tasks shows better throughput than the one before. When a request is
+ * throttled or fails with a server error, the limit is halved and starts to grow again from there.
+ */
+export class AdaptiveLimit implements RequestMonitor {
+  private active = 0;
+  private readonly queue: Array<() => void> = [];
+  private windowStart: number;
+  private windowCompleted = 0;
+  private lastThroughput = 0;
+  private backedOff = false;
+
+  public constructor(
+    private readonly max: number,
+    private current = Math.min(INITIAL_CONCURRENCY, max),
+    private readonly now: () => number = Date.now
+  ) {
+    this.windowStart = this.now();
+  }
+
+  public get concurrency(): number {
+    return this.current;
+  }
+
+  public readonly run: LimitFunction = <T>(task: () => Promise<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      this.queue.push(() => {
+        this.active++;
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            this.active--;
+            this.completed();
+          });
+      });
+      this.startQueued();
+    });
+
+  public afterError(error: unknown): void {
+    // requests that were already running when the limit was lowered do not lower it again
+    if (isThrottling(error) && !this.backedOff) {
+      this.current = Math.max(1, Math.floor(this.current / 2));
+      this.backedOff = true;
+      this.lastThroughput = 0;
+      this.resetWindow();
+    }
+  }
+
+  private completed(): void {
+    this.backedOff = false;
+    this.windowCompleted++;
+    // a window lasts for twice as many tasks as may run at once, so that it spans more than one round of tasks
+    if (this.windowCompleted >= this.current * 2) {
+      const elapsed = Math.max(1, this.now() - this.windowStart);
+      const throughput = this.windowCompleted / elapsed;
+      if (throughput > this.lastThroughput * IMPROVEMENT_THRESHOLD && this.current < this.max) {
+        this.current++;
+      }
+      this.lastThroughput = throughput;
+      this.resetWindow();
+    }
+    this.startQueued();
+  }
+
+  private resetWindow(): void {
+    this.windowStart = this.now();
+    this.windowCompleted = 0;
+  }
+
+  private startQueued(): void {
+    while (this.active < this.current && this.queue.length > 0) {
+      this.queue.shift()?.();
+    }
+  }
+}
+
+/**
+ * Creates the limit for the given `--concurrency` value. In `auto` mode, the limit follows the requests sent with the
+ * connection.
+ */
+export function createLimit(conn: Connection, concurrency: Concurrency, max: number): LimitFunction {
+  if (concurrency !== 'auto') {
+    return pLimit(concurrency);
+  }
+  const adaptiveLimit = new AdaptiveLimit(max);
+  monitorRequests(conn, adaptiveLimit);
+  return adaptiveLimit.run;
+}
@@ -0,0 +1,86 @@
+import axios from 'axios';
+import { RequestMonitor } from './httpClient.js';
+
+export type ApiUsage = {
+  used: number;
+  limit: number;
+};
+
+// share of the org's daily api requests left for other integrations
+const DAILY_LIMIT_RESERVE = 0.05;
+
+/**
+ * Thrown instead of sending a request once the api call budget of the run is used up.
+ */
+export class ApiBudgetExhaustedError extends Error {
+  public constructor(reason: string) {
+    super(`API call budget exhausted: ${reason}`);
+    this.name = 'ApiBudgetExhaustedError';
+  }
+}
+
+/**
+ * Parses the `Sforce-Limit-Info` response header, eg: `api-usage=25/15000`.
+ */
+export function parseLimitInfo(header: unknown): ApiUsage | undefined {
+  const match = typeof header === 'string' ? /api-usage=(\d+)\/(\d+)/.exec(header) : null;
+  return match ? { used: Number(match[1]), limit: Number(match[2]) } : undefined;
+}
+
+/**
+ * Parses the value of a `--max-api-calls` flag, a whole number of at least 1. The flag has no default, as a run without
+ * it has no budget of its own.
+ */
+export function parseMaxApiCalls(input: string): Promise<number> {
+  const value = Number(input);
+  if (!Number.isInteger(value) || value < 1) {
+    return Promise.reject(new Error(`Expected a number of at least 1, but received: ${input}`));
+  }
+  return Promise.resolve(value);
+}
+
+/**
+ * Counts the api calls made during a run, and stops further calls when `maxCalls` is reached or when the org is
+ * about to run out of daily api requests, as reported by the `Sforce-Limit-Info` header of the responses.
+ */
+export class ApiBudget implements RequestMonitor {
+  public calls = 0;
+  private usage?: ApiUsage;
+
+  public constructor(private readonly maxCalls?: number) {}
+
+  /**
+   * The reason no more calls may be made, or undefined while calls may be made.
+   */
+  public get exhaustedReason(): string | undefined {
+    if (this.maxCalls !== undefined && this.calls >= this.maxCalls) {
+      return `all of the ${this.maxCalls} API calls allowed by --max-api-calls were made`;
+    }
+    if (this.usage && this.usage.limit - this.usage.used <= this.usage.limit * DAILY_LIMIT_RESERVE) {
+      return `the org has used ${this.usage.used} of its ${this.usage.limit} daily API requests`;
+    }
+    return undefined;
+  }
+
+  public get exhausted(): boolean {
+    return this.exhaustedReason !== undefined;
+  }
+
+  public beforeRequest(): void {
+    const reason = this.exhaustedReason;
+    if (reason) {
+      throw new ApiBudgetExhaustedError(reason);
+    }
+    this.calls++;
+  }
+
+  public afterResponse(headers: Record<string, unknown>): void {
+    this.usage = parseLimitInfo(headers['sforce-limit-info']) ?? this.usage;
+  }
+
+  public afterError(error: unknown): void {
+    if (axios.isAxiosError(error) && error.response) {
+      this.afterResponse(error.response.headers as Record<string, unknown>);
+    }
+  }
+}
@@ -0,0 +1,77 @@
+export type Bin<T> = {
+  items: T[];
+  size: number;
+};
+
+type Entry<T> = {
+  item: T;
+  index: number;
+  size: number;
+};
+
+type OpenBin<T> = {
+  entries: Array<Entry<T>>;
+  size: number;
+};
+
+/**
+ * Packs items into bins of no more than `maxSize` bytes and `maxItems` items as the items arrive, so that the first
+ * bins are handed out before the last items are known. The items added together are placed largest first, each into
+ * the first open bin with room for it (first fit decreasing). A bin is handed out as soon as it holds `maxItems`
+ * items, and the fullest open bin once an item needs a new bin while `maxOpenBins` bins are open. Items of the same
+ * size are placed in input order and every bin lists its items in input order, so the same items always give the same
+ * bins. Items larger than `maxSize` get a bin of their own.
+ */
+export class BinPacker<T> {
+  private readonly open: Array<OpenBin<T>> = [];
+  private added = 0;
+
+  public constructor(
+    private readonly sizeOf: (item: T) => number,
+    private readonly maxSize: number,
+    private readonly maxItems: number,
+    private readonly maxOpenBins = Infinity
+  ) {}
+
+  /**
+   * Places the items and returns the bins that were filled.
+   */
+  public add(items: T[]): Array<Bin<T>> {
+    const entries = items
+      .map((item) => ({ item, index: this.added++, size: this.sizeOf(item) }))
+      .sort((a, b) => b.size - a.size || a.index - b.index);
+
+    const filled: Array<Bin<T>> = [];
+    for (const entry of entries) {
+      let bin = this.open.find((b) => b.size + entry.size <= this.maxSize);
+      if (!bin) {
+        if (this.open.length >= this.maxOpenBins) {
+          filled.push(this.close(this.open.reduce((fullest, b) => (b.size > fullest.size ? b : fullest))));
+        }
+        bin = { entries: [], size: 0 };
+        this.open.push(bin);
+      }
+      bin.entries.push(entry);
+      bin.size += entry.size;
+      if (bin.entries.length >= this.maxItems) {
+        filled.push(this.close(bin));
+      }
+    }
+    return filled;
+  }
+
+  /**
+   * Returns the bins that are still open, once every item has been added.
+   */
+  public flush(): Array<Bin<T>> {
+    return [...this.open].map((bin) => this.close(bin));
+  }
+
+  private close(bin: OpenBin<T>): Bin<T> {
+    this.open.splice(this.open.indexOf(bin), 1);
+    return {
+      items: bin.entries.sort((a, b) => a.index - b.index).map((entry) => entry.item),
+      size: bin.size,
+    };
+  }
+}
@@ -0,0 +1,115 @@
+import { Readable } from 'node:stream';
+import mime from 'mime';
+
+const DEFAULT_CONTENT_TYPE = 'application/octet-stream';
+export const SNIFF_LENGTH = 64; // bytes read from the start of a file to recognise its format
+export const CONTENT_TYPE = /^[\w.+-]+\/[\w.+-]+$/;
+
+/**
+ * A file format recognised by the bytes it starts with. Containers, like zip for docx and xlsx, are shared by many
+ * formats, so the type the file name gives is kept when the name has a known type.
+ */
+type Signature = {
+  offset: number;
+  bytes: string | number[];
+  type: string | ((head: Buffer) => string);
+  container?: boolean;
+};
+
+// ISO base media files (mp4, mov, heic) name their format in the brand after `ftyp`
+const BRANDS: Record<string, string> = {
+  heic: 'image/heic',
+  heix: 'image/heic',
+  hevc: 'image/heic-sequence',
+  hevx: 'image/heic-sequence',
+  mif1: 'image/heif',
+  msf1: 'image/heif-sequence',
+  avif: 'image/avif',
+  'qt  ': 'video/quicktime',
+  'M4A ': 'audio/mp4',
+};
+
+const RIFF_FORMATS: Record<string, string> = {
+  WEBP: 'image/webp',
+  WAVE: 'audio/wav',
+  'AVI ': 'video/x-msvideo',
+};
+
+const SIGNATURES: Signature[] = [
+  { offset: 0, bytes: '%PDF-', type: 'application/pdf' },
+  { offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], type: 'image/png' },
+  { offset: 0, bytes: [0xff, 0xd8, 0xff], type: 'image/jpeg' },
+  { offset: 0, bytes: 'GIF87a', type: 'image/gif' },
+  { offset: 0, bytes: 'GIF89a', type: 'image/gif' },
+  { offset: 0, bytes: [0x49, 0x49, 0x2a, 0x00], type: 'image/tiff' },
+  { offset: 0, bytes: [0x4d, 0x4d, 0x00, 0x2a], type: 'image/tiff' },
+  { offset: 0, bytes: '8BPS', type: 'image/vnd.adobe.photoshop' },
+  {
+    offset: 0,
+    bytes: 'RIFF',
+    type: (head): string => RIFF_FORMATS[head.toString('latin1', 8, 12)] ?? DEFAULT_CONTENT_TYPE,
+    container: true,
+  },
+  {
+    offset: 4,
+    bytes: 'ftyp',
+    type: (head): string => BRANDS[head.toString('latin1', 8, 12)] ?? 'video/mp4',
+  },
+  { offset: 0, bytes: [0x1a, 0x45, 0xdf, 0xa3], type: 'video/x-matroska', container: true },
+  { offset: 0, bytes: 'ID3', type: 'audio/mpeg' },
+  { offset: 0, bytes: 'OggS', type: 'audio/ogg', container: true },
+  { offset: 0, bytes: 'fLaC', type: 'audio/flac' },
+  { offset: 0, bytes: '{\\rtf', type: 'application/rtf' },
+  { offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04], type: 'application/zip', container: true },
+  { offset: 0, bytes: [0x50, 0x4b, 0x05, 0x06], type: 'application/zip', container: true },
+  { offset: 0, bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1], type: 'application/x-cfb', container: true },
+  { offset: 0, bytes: [0x1f, 0x8b], type: 'application/gzip' },
+  { offset: 0, bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c], type: 'application/x-7z-compressed' },
+  { offset: 0, bytes: 'Rar!', type: 'application/vnd.rar' },
+];
+
+function matches(head: Buffer, { offset, bytes }: Signature): boolean {
+  const expected = typeof bytes === 'string' ? Buffer.from(bytes, 'latin1') : Buffer.from(bytes);
+  return head.length >= offset + expected.length && head.subarray(offset, offset + expected.length).equals(expected);
+}
+
+/**
+ * The content type of a file by the extension of its name, or `application/octet-stream` for unknown extensions.
+ */
+export function contentTypeFromFileName(fileName: string): string {
+  return mime.getType(fileName) ?? DEFAULT_CONTENT_TYPE;
+}
+
+/**
+ * The content type of a file, by the bytes it starts with and its name. The bytes win over the name when they
+ * identify a single format, so that files with a wrong or missing extension are still previewed in the org.
+ */
+export function detectContentType(fileName: string, head: Buffer): string {
+  const byName = mime.getType(fileName);
+  const signature = SIGNATURES.find((s) => matches(head, s));
+  if (!signature) {
+    return byName ?? DEFAULT_CONTENT_TYPE;
+  }
+  if (byName && signature.container) {
+    return byName;
+  }
+  const sniffed = typeof signature.type === 'function' ? signature.type(head) : signature.type;
+  return sniffed === DEFAULT_CONTENT_TYPE ? byName ?? sniffed : sniffed;
+}
+
+/**
+ * Reads the first bytes of a stream, and closes it.
+ */
+export async function readHead(stream: Readable, length = SNIFF_LENGTH): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk as Buffer));
+    size += (chunk as Buffer).length;
+    if (size >= length) {
+      break;
+    }
+  }
+  stream.destroy();
+  return Buffer.concat(chunks).subarray(0, length);
+}
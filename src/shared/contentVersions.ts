@@ -0,0 +1,429 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import { Readable } from 'node:stream';
+import { Connection } from '@salesforce/core';
+import axios from 'axios';
+import FormData from 'form-data';
+import { authorizedRequest } from './httpClient.js';
+import { idKey, inChunks, quote } from './records.js';
+
+export type CompositeError = {
+  message: string;
+  statusCode: string;
+  fields: string[];
+};
+
+export type SaveResult = {
+  success: boolean;
+  id: string;
+  errors: CompositeError[];
+};
+
+export type ContentVersionRequest = {
+  attributes: {
+    type: 'ContentVersion';
+    binaryPartName: string;
+    binaryPartNameAlias: string;
+  };
+  Title: string;
+  PathOnClient: string;
+} & Record<string, unknown>;
+
+/**
+ * A file to send with a multipart request. `open` is called for every attempt at sending the request, and must return
+ * a new stream each time.
+ */
+export type BinaryPart = {
+  partName: string;
+  open: () => Readable;
+  fileName: string;
+  contentType: string;
+  knownLength?: number;
+};
+
+type ApiError = {
+  message: string;
+  errorCode: string;
+  fields?: string[];
+};
+
+/**
+ * Converts csv style columns to ContentVersion field values. A column named `<LookupField>.<ParentField>` (eg:
+ * Contact__r.Email) looks up the parent record by an idLookup field. For polymorphic lookups, the parent object is
+ * given as `<LookupField>:<ParentObject>.<ParentField>` (eg: FirstPublishLocation:Contact.Email).
+ */
+export function toFieldValues(columns: Record<string, string>): Record<string, string | object> {
+  const values: Record<string, string | object> = {};
+  for (const [key, value] of Object.entries(columns)) {
+    if (!key.includes('.')) {
+      values[key] = value;
+      continue;
+    }
+
+    if (value === '') {
+      // a lookup without a value leaves the field empty, rather than looking up a parent with an empty key
+      continue;
+    }
+
+    const [fieldNamePart, parentFieldName] = key.split('.');
+    const [fieldName, parentObject] = fieldNamePart.includes(':') ? fieldNamePart.split(':') : [fieldNamePart, null];
+
+    if (parentObject) {
+      values[fieldName] = { attributes: { type: parentObject }, [parentFieldName]: value };
+    } else {
+      values[fieldName] = {
+        [parentFieldName]: value,
+      };
+    }
+  }
+  return values;
+}
+
+/**
+ * Inserts the ContentVersion records with a single multipart request to the sObject collections api. The binary
+ * parts are streamed into the request body. The results are in the same order as the records.
+ */
+export async function insertContentVersions(
+  conn: Connection,
+  records: ContentVersionRequest[],
+  binaryParts: BinaryPart[]
+): Promise<SaveResult[]> {
+  const response = await authorizedRequest<SaveResult[]>(conn, (authorization) => {
+    const formData = new FormData();
+    formData.append('collection', JSON.stringify({ allOrNone: false, records }), { contentType: 'application/json' });
+
+    for (const { partName, open, fileName, contentType, knownLength } of binaryParts) {
+      formData.append(partName, open(), { filename: fileName, contentType, knownLength });
+    }
+
+    return axios.post(`${conn.instanceUrl}/services/data/v${conn.getApiVersion()}/composite/sobjects`, formData, {
+      headers: {
+        ...formData.getHeaders(),
+        Authorization: authorization,
+      },
+      maxBodyLength: Infinity,
+    });
+  });
+  return response.data;
+}
+
+/**
+ * Inserts a single ContentVersion with a multipart request to the sObject api, streaming the binary data into the
+ * request body. Used for files that are too large to share a composite request with other files.
+ */
+export async function insertContentVersion(
+  conn: Connection,
+  record: ContentVersionRequest,
+  binaryPart: BinaryPart
+): Promise<SaveResult> {
+  try {
+    const response = await authorizedRequest<SaveResult>(conn, (authorization) => {
+      const formData = new FormData();
+      formData.append('entity_content', JSON.stringify({ ...record, attributes: undefined }), {
+        contentType: 'application/json',
+      });
+      formData.append('VersionData', binaryPart.open(), {
+        filename: binaryPart.fileName,
+        contentType: binaryPart.contentType,
+        knownLength: binaryPart.knownLength,
+      });
+
+      return axios.post(
+        `${conn.instanceUrl}/services/data/v${conn.getApiVersion()}/sobjects/ContentVersion`,
+        formData,
+        {
+          headers: {
+            ...formData.getHeaders(),
+            Authorization: authorization,
+          },
+          maxBodyLength: Infinity,
+        }
+      );
+    });
+    return response.data;
+  } catch (err) {
+    // validation errors are reported like a failed record of a composite request
+    if (axios.isAxiosError(err) && err.response?.status === 400 && Array.isArray(err.response.data)) {
+      const apiErrors = err.response.data as ApiError[];
+      return {
+        success: false,
+        id: '',
+        errors: apiErrors.map((apiError) => ({
+          message: apiError.message,
+          statusCode: apiError.errorCode,
+          fields: apiError.fields ?? [],
+        })),
+      };
+    }
+    throw err;
+  }
+}
+
+export type DocumentLink = {
+  ContentDocumentId: string;
+  LinkedEntityId: string;
+  ShareType: string;
+  Visibility: string;
+};
+
+/**
+ * Shares documents with records by inserting ContentDocumentLink records with the sObject collections api. At most
+ * 200 links can be inserted with one call. The results are in the same order as the links.
+ */
+export async function insertDocumentLinks(conn: Connection, links: DocumentLink[]): Promise<SaveResult[]> {
+  const records = links.map((link) => ({ attributes: { type: 'ContentDocumentLink' }, ...link }));
+  const response = await authorizedRequest<SaveResult[]>(conn, (authorization) =>
+    axios.post(
+      `${conn.instanceUrl}/services/data/v${conn.getApiVersion()}/composite/sobjects`,
+      { allOrNone: false, records },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: authorization,
+        },
+      }
+    )
+  );
+  return response.data;
+}
+
+/**
+ * Deletes records by Id with the sObject collections api. At most 200 records can be deleted with one call. The
+ * results are in the same order as the Ids.
+ */
+export async function deleteRecords(conn: Connection, ids: string[]): Promise<SaveResult[]> {
+  const response = await authorizedRequest<SaveResult[]>(conn, (authorization) =>
+    axios.delete(
+      `${conn.instanceUrl}/services/data/v${conn.getApiVersion()}/composite/sobjects?ids=${ids.join(
+        ','
+      )}&allOrNone=false`,
+      { headers: { Authorization: authorization } }
+    )
+  );
+  return response.data;
+}
+
+export type VersionChecksum = {
+  Id: string;
+  Checksum: string;
+  ContentSize: number;
+};
+
+/**
+ * Queries the MD5 checksum and size of the binary data of ContentVersions. Ids that are not found are left out.
+ */
+export async function queryChecksums(conn: Connection, ids: string[]): Promise<Map<string, VersionChecksum>> {
+  const results = await Promise.all(
+    inChunks(ids).map(async (idList) =>
+      conn.query<VersionChecksum>(
+        `SELECT Id, Checksum, ContentSize FROM ContentVersion WHERE Id IN (${quote(idList)})`,
+        {
+          autoFetch: true,
+          maxFetch: Infinity,
+        }
+      )
+    )
+  );
+  return new Map(results.flatMap((result) => result.records).map((record) => [record.Id, record]));
+}
+
+/**
+ * The latest version of a document with the same content as a file to import.
+ */
+export type ExistingVersion = {
+  Id: string;
+  ContentDocumentId: string;
+  VersionNumber: string;
+  Checksum: string;
+  FirstPublishLocationId: string | null;
+  FirstPublishLocation?: ({ attributes: { type: string } } & Record<string, unknown>) | null;
+};
+
+/**
+ * The record a file is first published to, by Id or by an idLookup field of the parent object.
+ */
+export type PublishLocation = { id: string } | { objectName: string; fieldName: string; value: string };
+
+/**
+ * Queries the latest ContentVersions with the given MD5 checksums, grouped by checksum. The idLookup fields of the
+ * locations are queried along, so that `findDuplicate` can compare them.
+ */
+export async function queryVersionsByChecksum(
+  conn: Connection,
+  checksums: string[],
+  locations: PublishLocation[] = []
+): Promise<Map<string, ExistingVersion[]>> {
+  const fieldsByObject = new Map<string, Set<string>>();
+  for (const location of locations) {
+    if ('objectName' in location) {
+      const fields = fieldsByObject.get(location.objectName) ?? new Set<string>();
+      fieldsByObject.set(location.objectName, fields.add(location.fieldName));
+    }
+  }
+  const typeOf =
+    fieldsByObject.size > 0
+      ? `, TYPEOF FirstPublishLocation ${[...fieldsByObject]
+          .map(([objectName, fields]) => `WHEN ${objectName} THEN ${[...fields].join(', ')}`)
+          .join(' ')} END`
+      : '';
+
+  const results = await Promise.all(
+    inChunks(checksums).map(async (checksumList) =>
+      conn.query<ExistingVersion>(
+        `SELECT Id, ContentDocumentId, VersionNumber, Checksum, FirstPublishLocationId${typeOf} FROM ContentVersion WHERE IsLatest = true AND Checksum IN (${quote(
+          checksumList
+        )})`,
+        { autoFetch: true, maxFetch: Infinity }
+      )
+    )
+  );
+  const versions = new Map<string, ExistingVersion[]>();
+  for (const record of results.flatMap((result) => result.records)) {
+    versions.set(record.Checksum, [...(versions.get(record.Checksum) ?? []), record]);
+  }
+  return versions;
+}
+
+/**
+ * The first of the versions published to the location, or the first version when there is no location to compare.
+ */
+export function findDuplicate(
+  versions: ExistingVersion[] | undefined,
+  location?: PublishLocation
+): ExistingVersion | undefined {
+  if (!location) {
+    return versions?.[0];
+  }
+  return versions?.find((version) => {
+    if ('id' in location) {
+      return version.FirstPublishLocationId ? idKey(version.FirstPublishLocationId) === idKey(location.id) : false;
+    }
+    const parent = version.FirstPublishLocation;
+    if (parent?.attributes.type.toLowerCase() !== location.objectName.toLowerCase()) {
+      return false;
+    }
+    const field = Object.keys(parent).find((key) => key.toLowerCase() === location.fieldName.toLowerCase());
+    return field !== undefined && String(parent[field]) === location.value;
+  });
+}
+
+/**
+ * Starts downloading the binary data of a ContentVersion and returns the response stream.
+ */
+export async function downloadVersionData(conn: Connection, contentVersionId: string): Promise<Readable> {
+  const fileUrl = `${
+    conn.instanceUrl
+  }/services/data/v${conn.getApiVersion()}/sobjects/ContentVersion/${contentVersionId}/VersionData`;
+
+  const response = await authorizedRequest<Readable>(conn, (authorization) =>
+    axios.get(fileUrl, {
+      headers: { Authorization: authorization },
+      responseType: 'stream',
+      timeout: 30_000, // 30 second timeout
+    })
+  );
+  return response.data;
+}
+
+/**
+ * Downloads the binary data of a ContentVersion to the given path and returns the number of bytes written. When the
+ * expected checksum is given, the data is hashed as it is written. A file that does not match, or whose download
+ * failed part way, is deleted.
+ */
+export async function downloadToFile(
+  conn: Connection,
+  contentVersionId: string,
+  outputFilePath: string,
+  expected?: VersionChecksum
+): Promise<number> {
+  let data: Readable | undefined;
+  let writer: fs.WriteStream | undefined;
+  const hash = crypto.createHash('md5');
+
+  try {
+    data = await downloadVersionData(conn, contentVersionId);
+    writer = fs.createWriteStream(outputFilePath);
+
+    await new Promise<void>((resolve, reject) => {
+      if (!data || !writer) {
+        reject(new Error('Response or writer not initialized'));
+        return;
+      }
+
+      writer.on('finish', resolve);
+      writer.on('error', reject);
+
+      data.on('error', (err) => {
+        reject(new Error(`Stream error: ${err.message}`, { cause: err }));
+      });
+
+      data.on('data', (chunk: Buffer) => hash.update(chunk));
+      data.pipe(writer);
+    });
+
+    const size = writer.bytesWritten;
+    if (expected) {
+      const checksum = hash.digest('hex');
+      if (size !== expected.ContentSize || checksum !== expected.Checksum) {
+        throw new Error(
+          `Integrity check failed: expected ${expected.ContentSize} bytes with checksum ${expected.Checksum}, ` +
+            `received ${size} bytes with checksum ${checksum}`
+        );
+      }
+    }
+    return size;
+  } catch (err) {
+    // Clean up resources in case of error so the process doesn't hang
+    if (axios.isAxiosError(err)) {
+      (err.response?.data as Readable | undefined)?.destroy();
+    }
+    if (writer) {
+      writer.end();
+      fs.rmSync(outputFilePath, { force: true });
+    }
+    throw err;
+  }
+}
+
+/**
+ * A stream that only opens its source when it is first read from. Used to add many downloads to a multipart request
+ * without starting them all at once, since the parts are sent one after the other.
+ */
+export class LazyReadable extends Readable {
+  private source?: Readable;
+  private opening = false;
+
+  public constructor(private readonly open: () => Promise<Readable>) {
+    super();
+  }
+
+  public _read(): void {
+    if (this.source) {
+      this.source.resume();
+      return;
+    }
+    if (this.opening) {
+      return;
+    }
+
+    this.opening = true;
+    this.open().then(
+      (source) => {
+        this.source = source;
+        source.on('data', (chunk: Buffer) => {
+          if (!this.push(chunk)) {
+            source.pause();
+          }
+        });
+        source.on('end', () => this.push(null));
+        source.on('error', (err) => this.destroy(err));
+      },
+      (err: Error) => this.destroy(err)
+    );
+  }
+
+  public _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    this.source?.destroy();
+    callback(error);
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Columns an error file adds after the input columns of each failed row. Error files can be passed back to the
+ * command that wrote them to retry the failed rows, so these columns are left out when the rows are read again.
+ */
+export const ERROR_COLUMNS = [
+  'Error',
+  'ErrorDetails',
+  'ErrorStatus',
+  'ErrorStatusText',
+  'ErrorUrl',
+  'ErrorFields',
+  'Attempts',
+];
+
+const errorColumns = new Set(ERROR_COLUMNS.map((column) => column.toLowerCase()));
+
+export function isErrorColumn(column: string): boolean {
+  return errorColumns.has(column.toLowerCase());
+}
+
+/**
+ * The input columns of a row read from an error file, or of any other row.
+ */
+export function withoutErrorColumns<T extends Record<string, string>>(row: T): T {
+  return Object.fromEntries(Object.entries(row).filter(([column]) => !isErrorColumn(column))) as T;
+}
@@ -0,0 +1,106 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import csvParser from 'csv-parser';
+import { Parser } from 'json2csv';
+
+// `replaced` marks a file overwritten by a later version of its ContentDocument in an incremental export
+export type ManifestStatus = 'success' | 'failed' | 'replaced';
+
+export type ManifestEntry = {
+  id: string;
+  fileName: string;
+  size: number;
+  status: ManifestStatus;
+};
+
+const MANIFEST_FIELDS = ['id', 'fileName', 'size', 'status'];
+
+/**
+ * Append-only log of the ContentVersions processed by an export, kept in the output directory so that an interrupted
+ * export can be resumed. When an Id appears more than once, the last entry wins.
+ */
+export class ExportManifest {
+  public static readonly FILE_NAME = 'fileops-manifest.csv';
+
+  private readonly lineParser = new Parser({ fields: MANIFEST_FIELDS, header: false });
+
+  private constructor(
+    private readonly outputDir: string,
+    private readonly filePath: string,
+    private readonly entries: Map<string, ManifestEntry>
+  ) {}
+
+  /**
+   * Whether the given directory has a manifest, ie: files were exported to it.
+   */
+  public static exists(outputDir: string): boolean {
+    return fs.existsSync(path.join(outputDir, ExportManifest.FILE_NAME));
+  }
+
+  /**
+   * Opens the manifest in the given output directory. When `resume` is true, entries from a previous run are loaded
+   * and new entries are appended to them. Otherwise the manifest is started afresh.
+   */
+  public static async open(outputDir: string, resume: boolean): Promise<ExportManifest> {
+    const filePath = path.join(outputDir, ExportManifest.FILE_NAME);
+    const entries = new Map<string, ManifestEntry>();
+
+    if (resume && fs.existsSync(filePath)) {
+      await new Promise<void>((resolve, reject) => {
+        fs.createReadStream(filePath)
+          .pipe(csvParser())
+          .on('data', (row: Record<string, string>) => {
+            if (row.id) {
+              entries.set(row.id, {
+                id: row.id,
+                fileName: row.fileName,
+                size: Number(row.size) || 0,
+                status: row.status === 'success' || row.status === 'replaced' ? row.status : 'failed',
+              });
+            }
+          })
+          .on('end', () => resolve())
+          .on('error', reject);
+      });
+    } else {
+      fs.writeFileSync(filePath, new Parser({ fields: MANIFEST_FIELDS }).parse([]) + os.EOL);
+    }
+
+    return new ExportManifest(outputDir, filePath, entries);
+  }
+
+  /**
+   * A ContentVersion is complete if it was exported successfully and the exported file is still on disk.
+   */
+  public isComplete(id: string): boolean {
+    const entry = this.entries.get(id);
+    return entry?.status === 'success' && fs.existsSync(path.join(this.outputDir, entry.fileName));
+  }
+
+  public get(id: string): ManifestEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  /**
+   * Returns the entries of the files exported successfully so far.
+   */
+  public completedEntries(): ManifestEntry[] {
+    return [...this.entries.values()].filter((entry) => entry.status === 'success');
+  }
+
+  /**
+   * Returns the names of the files exported successfully so far.
+   */
+  public completedFileNames(): string[] {
+    return this.completedEntries().map((entry) => entry.fileName);
+  }
+
+  /**
+   * Records the outcome for a ContentVersion. The entry is written to disk immediately so that it survives a crash.
+   */
+  public record(entry: ManifestEntry): void {
+    this.entries.set(entry.id, entry);
+    fs.appendFileSync(this.filePath, this.lineParser.parse([entry]) + os.EOL);
+  }
+}
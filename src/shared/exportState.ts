@@ -0,0 +1,118 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+type StateFile = {
+  since?: string;
+  documents?: Record<string, string>;
+};
+
+/**
+ * Formats a date as a SOQL datetime literal. Milliseconds are dropped, rounding down, so that a query for the records
+ * modified after the literal never misses one modified within the same second.
+ */
+export function toSoqlDateTime(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Parses the value of a `--since` flag, which is either a date and time, converted to a SOQL datetime literal, or
+ * `last` for the high-water mark of the previous run.
+ */
+export function parseSince(input: string): Promise<string> {
+  if (input === 'last') {
+    return Promise.resolve(input);
+  }
+  const date = new Date(input);
+  if (Number.isNaN(date.getTime())) {
+    return Promise.reject(
+      new Error(`Expected a date and time, eg: 2024-05-31T18:00:00Z, or last, but received: ${input}`)
+    );
+  }
+  return Promise.resolve(toSoqlDateTime(date));
+}
+
+/**
+ * State of an incremental export, kept in the output directory next to the manifest: the high-water mark, the
+ * SystemModstamp up to which every ContentVersion has been exported, and the ContentVersion last exported for each
+ * ContentDocument. The mark only moves past the versions exported, or skipped as exported before, so versions that
+ * failed or were not attempted are queried again by the next run.
+ */
+export class ExportState {
+  public static readonly FILE_NAME = 'fileops-state.json';
+
+  // SystemModstamps of the versions exported, to find the latest one before the first version that was not
+  private readonly done: number[] = [];
+  private firstNotDone = Infinity;
+
+  private constructor(
+    private readonly filePath: string,
+    private readonly previous: string | undefined,
+    private readonly documents: Record<string, string>
+  ) {}
+
+  /**
+   * The high-water mark of the previous run, as a SOQL datetime literal.
+   */
+  public get since(): string | undefined {
+    return this.previous;
+  }
+
+  /**
+   * Loads the state of the previous run from the output directory, or starts without a high-water mark.
+   */
+  public static load(outputDir: string): ExportState {
+    const filePath = path.join(outputDir, ExportState.FILE_NAME);
+    const state = fs.existsSync(filePath) ? (JSON.parse(fs.readFileSync(filePath, 'utf8')) as StateFile) : {};
+    return new ExportState(filePath, state.since, state.documents ?? {});
+  }
+
+  /**
+   * The ContentVersion exported last for the ContentDocument.
+   */
+  public versionOf(documentId: string): string | undefined {
+    return this.documents[documentId];
+  }
+
+  /**
+   * Records a ContentVersion that was exported, in this run or a previous one.
+   */
+  public exported(documentId: string, versionId: string, systemModstamp: string): void {
+    if (documentId) {
+      this.documents[documentId] = versionId;
+    }
+    this.done.push(Date.parse(systemModstamp));
+  }
+
+  /**
+   * Records a ContentVersion that failed or was not attempted, so that the mark stays before it.
+   */
+  public failed(systemModstamp: string): void {
+    const stamp = Date.parse(systemModstamp);
+    if (stamp < this.firstNotDone) {
+      this.firstNotDone = stamp;
+    }
+  }
+
+  /**
+   * The high-water mark for the next run: the latest SystemModstamp before the first version that was not exported.
+   */
+  public nextSince(): string | undefined {
+    // a loop rather than Math.max(...done), which overflows the call stack with a few hundred thousand versions
+    let latest = -Infinity;
+    for (const stamp of this.done) {
+      if (stamp > latest && stamp < this.firstNotDone) {
+        latest = stamp;
+      }
+    }
+    if (latest === -Infinity) {
+      return this.previous;
+    }
+    const since = toSoqlDateTime(new Date(latest));
+    return this.previous && Date.parse(this.previous) > Date.parse(since) ? this.previous : since;
+  }
+
+  public save(): void {
+    const state: StateFile = { since: this.nextSince(), documents: this.documents };
+    fs.writeFileSync(this.filePath, JSON.stringify(state, null, 2));
+  }
+}
@@ -0,0 +1,115 @@
+import path from 'node:path';
+
+// characters that are not allowed in file names on at least one of the supported platforms
+// eslint-disable-next-line no-control-regex
+const ILLEGAL_CHARACTERS = /[<>:"/\\|?*\u0000-\u001f]/g;
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$/i;
+const PLACEHOLDER = /\{([^{}]+)\}/g;
+const MAX_SEGMENT_LENGTH = 200;
+
+/**
+ * Builds file names for exported files from a template such as `{Title}_{Id}.{ext}`. Placeholders may reference any
+ * column of the row being exported, plus `{ext}` for the file extension. Forward slashes in the template create
+ * subdirectories. Every name handed out is unique (ignoring case), a numeric suffix is added to resolve collisions.
+ */
+export class FileNameTemplate {
+  private readonly claimed = new Set<string>();
+
+  public constructor(private readonly template: string) {}
+
+  /**
+   * Replaces the characters that are not allowed in file names and trims the trailing dots and spaces that Windows
+   * does not allow.
+   */
+  public static sanitize(segment: string): string {
+    let name = segment
+      .replace(ILLEGAL_CHARACTERS, '_')
+      .trim()
+      .replace(/[. ]+$/, '');
+    if (name.length > MAX_SEGMENT_LENGTH) {
+      const ext = path.extname(name);
+      name = name.slice(0, MAX_SEGMENT_LENGTH - ext.length) + ext;
+    }
+    if (name === '' || name === '.' || name === '..') {
+      return '_';
+    }
+    return RESERVED_NAMES.test(name) ? `_${name}` : name;
+  }
+
+  private static lookupIgnoringCase(values: Record<string, string>, field: string): string | undefined {
+    const key = Object.keys(values).find((k) => k.toLowerCase() === field.toLowerCase());
+    return key === undefined ? undefined : values[key];
+  }
+
+  private static normalize(fileName: string): string {
+    return path.normalize(fileName).toLowerCase();
+  }
+
+  private static withSuffix(fileName: string, suffix: number): string {
+    if (suffix === 0) return fileName;
+    const ext = path.extname(fileName);
+    return `${fileName.slice(0, fileName.length - ext.length)}_${suffix}${ext}`;
+  }
+
+  /**
+   * Renders the template for the given row. The returned path is relative and uses the platform separator.
+   */
+  public render(row: Record<string, string>, ext: string): string {
+    const values: Record<string, string> = { ...row, ext };
+    const rendered = this.template.replace(PLACEHOLDER, (placeholder: string, field: string) => {
+      const value = Object.hasOwn(values, field) ? values[field] : FileNameTemplate.lookupIgnoringCase(values, field);
+      if (value === undefined) {
+        throw new Error(`Unknown field ${placeholder} in filename template`);
+      }
+      // values must not introduce subdirectories of their own
+      return value.replace(/[/\\]/g, '_');
+    });
+
+    const segments = rendered
+      .split('/')
+      .filter((segment) => segment.trim() !== '')
+      .map((segment) => FileNameTemplate.sanitize(segment));
+    return segments.length > 0 ? path.join(...segments) : '_';
+  }
+
+  /**
+   * Claims a unique name for the given row in each of the folders. The same suffixed name is used in all folders, so
+   * that a file shared between several of them has the same name everywhere.
+   */
+  public claim(row: Record<string, string>, ext: string, folders: string[] = ['']): string {
+    return this.claimInFolders(this.render(row, ext), folders);
+  }
+
+  /**
+   * Claims the given file name, or the first one with a numeric suffix that is not taken, eg: for a copy of a file in
+   * another folder.
+   */
+  public claimName(fileName: string): string {
+    return this.claimInFolders(fileName, ['']);
+  }
+
+  /**
+   * Marks a file name as taken, eg: by a file exported in a previous run.
+   */
+  public reserve(fileName: string): void {
+    this.claimed.add(FileNameTemplate.normalize(fileName));
+  }
+
+  /**
+   * Makes a reserved file name available again, eg: when its file is replaced by a later version.
+   */
+  public release(fileName: string): void {
+    this.claimed.delete(FileNameTemplate.normalize(fileName));
+  }
+
+  private claimInFolders(fileName: string, folders: string[]): string {
+    for (let suffix = 0; ; suffix++) {
+      const candidate = FileNameTemplate.withSuffix(fileName, suffix);
+      const keys = folders.map((folder) => FileNameTemplate.normalize(path.join(folder, candidate)));
+      if (keys.every((key) => !this.claimed.has(key))) {
+        keys.forEach((key) => this.claimed.add(key));
+        return candidate;
+      }
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { Connection } from '@salesforce/core';
+import axios, { AxiosResponse } from 'axios';
+
+/**
+ * Observes the requests sent with a connection, eg: to keep track of the api usage of the org.
+ */
+export type RequestMonitor = {
+  /** Called before every request. Throwing cancels the request. */
+  beforeRequest?: () => void;
+  afterResponse?: (headers: Record<string, unknown>) => void;
+  afterError?: (error: unknown) => void;
+};
+
+// refreshes in progress, so that concurrent requests that find the session expired wait for a single refresh
+const refreshes = new WeakMap<Connection, Promise<void>>();
+const monitors = new WeakMap<Connection, RequestMonitor[]>();
+
+/**
+ * Registers a monitor for the requests sent on the connection, both with `authorizedRequest` and by jsforce, eg: for
+ * `query` and `queryMore`.
+ */
+export function monitorRequests(conn: Connection, monitor: RequestMonitor): void {
+  if (!monitors.has(conn)) {
+    monitorConnectionRequests(conn);
+  }
+  monitors.set(conn, [...(monitors.get(conn) ?? []), monitor]);
+}
+
+/**
+ * Runs the monitors around the requests jsforce sends with the connection. jsforce does not hand out the response
+ * headers, only the api usage it parses from them into `limitInfo`, which is passed on as the header it came from.
+ */
+function monitorConnectionRequests(conn: Connection): void {
+  const request = conn.request.bind(conn);
+  const monitored = (<R>(...args: Parameters<Connection['request']>) => {
+    const connMonitors = monitors.get(conn) ?? [];
+    connMonitors.forEach((monitor) => monitor.beforeRequest?.());
+    const response = request<R>(...args);
+    response.then(
+      () => {
+        const usage = conn.limitInfo?.apiUsage;
+        const headers = usage ? { 'sforce-limit-info': `api-usage=${usage.used}/${usage.limit}` } : {};
+        connMonitors.forEach((monitor) => monitor.afterResponse?.(headers));
+      },
+      (err) => connMonitors.forEach((monitor) => monitor.afterError?.(err))
+    );
+    return response;
+  }) as Connection['request'];
+  Object.assign(conn, { request: monitored });
+}
+
+async function sendMonitored<T>(conn: Connection, send: () => Promise<AxiosResponse<T>>): Promise<AxiosResponse<T>> {
+  const connMonitors = monitors.get(conn) ?? [];
+  connMonitors.forEach((monitor) => monitor.beforeRequest?.());
+  try {
+    const response = await send();
+    connMonitors.forEach((monitor) => monitor.afterResponse?.((response.headers ?? {}) as Record<string, unknown>));
+    return response;
+  } catch (err) {
+    connMonitors.forEach((monitor) => monitor.afterError?.(err));
+    throw err;
+  }
+}
+
+/**
+ * Returns true if the request was rejected because the access token is no longer valid.
+ */
+export function isSessionExpired(error: unknown): boolean {
+  if (!axios.isAxiosError(error) || !error.response) {
+    return false;
+  }
+  const data: unknown = error.response.data;
+  return (
+    error.response.status === 401 ||
+    (Array.isArray(data) &&
+      data.some((apiError: { errorCode?: string }) => apiError.errorCode === 'INVALID_SESSION_ID'))
+  );
+}
+
+/**
+ * Refreshes the access token of the connection, unless it was already refreshed since `expiredToken` was used.
+ */
+async function refreshAccessToken(conn: Connection, expiredToken: Connection['accessToken']): Promise<void> {
+  let refresh = refreshes.get(conn);
+  if (!refresh) {
+    if (conn.accessToken !== expiredToken) {
+      return;
+    }
+    refresh = conn.refreshAuth().finally(() => refreshes.delete(conn));
+    refreshes.set(conn, refresh);
+  }
+  await refresh;
+}
+
+/**
+ * Sends a request to the org of the connection. `send` is given the Authorization header value to send the request
+ * with. When the session has expired, the access token is refreshed and `send` is called once more, so it must build
+ * the request afresh, eg: open streamed request bodies again.
+ */
+export async function authorizedRequest<T>(
+  conn: Connection,
+  send: (authorization: string) => Promise<AxiosResponse<T>>
+): Promise<AxiosResponse<T>> {
+  const accessToken = conn.accessToken;
+  try {
+    return await sendMonitored(conn, () => send(`Bearer ${accessToken ?? ''}`));
+  } catch (err) {
+    if (!isSessionExpired(err)) {
+      throw err;
+    }
+    await refreshAccessToken(conn, accessToken);
+    return sendMonitored(conn, () => send(`Bearer ${conn.accessToken ?? ''}`));
+  }
+}
@@ -0,0 +1,177 @@
+import { Connection } from '@salesforce/core';
+import { CONTENT_TYPE } from './contentTypes.js';
+
+type Describe = Awaited<ReturnType<Connection['describe']>>;
+type DescribeField = Describe['fields'][number];
+
+/**
+ * A problem found in the import csv. Problems with a column have no line, problems with a value have both.
+ */
+export type ImportProblem = {
+  line?: number;
+  column?: string;
+  versionData?: string;
+  problem: string;
+};
+
+// `Link:<Object>.<ExtField>` columns list the records to share an uploaded file with
+export const LINK_COLUMN = /^link:(\w+)\.(\w+)$/i;
+const LOOKUP_COLUMN = /^(\w+)(?::(\w+))?\.(\w+)$/;
+// columns that are not ContentVersion fields
+const FILE_COLUMNS = new Set(['versiondata', 'contenttype']);
+
+const VALUE_CHECKS: Record<string, (value: string) => boolean> = {
+  boolean: (value) => /^(true|false)$/i.test(value),
+  int: (value) => /^-?\d+$/.test(value),
+  double: (value) => !Number.isNaN(Number(value)),
+  currency: (value) => !Number.isNaN(Number(value)),
+  percent: (value) => !Number.isNaN(Number(value)),
+  date: (value) => /^\d{4}-\d{2}-\d{2}$/.test(value),
+  datetime: (value) => !Number.isNaN(Date.parse(value)),
+};
+
+function findField(describe: Describe, predicate: (field: DescribeField) => boolean): DescribeField | undefined {
+  return describe.fields.find(predicate);
+}
+
+function sameName(a: string | null | undefined, b: string): boolean {
+  return a?.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Checks the columns and values of an import csv against the ContentVersion object of the org, using describe calls
+ * only, so that mistakes are found before any file is uploaded.
+ */
+export class ImportValidator {
+  private readonly describes = new Map<string, Promise<Describe | undefined>>();
+  // the ContentVersion field set by each plain column, to check the values against
+  private readonly columnFields = new Map<string, DescribeField>();
+
+  public constructor(private readonly conn: Connection) {}
+
+  /**
+   * Checks that every column is a createable ContentVersion field, a lookup through an idLookup field of the parent
+   * object, or a link column naming an idLookup field.
+   */
+  public async validateColumns(columns: string[]): Promise<ImportProblem[]> {
+    const contentVersion = await this.describe('ContentVersion');
+    if (!contentVersion) {
+      throw new Error('Could not describe the ContentVersion object');
+    }
+
+    // the describes are cached by object, so the columns of the same parent object share one describe call
+    const problems = await Promise.all(
+      columns
+        .filter((c) => !FILE_COLUMNS.has(c.toLowerCase()))
+        .map(async (column): Promise<ImportProblem | undefined> => {
+          const problem = await this.validateColumn(column, contentVersion);
+          return problem ? { column, problem } : undefined;
+        })
+    );
+    return problems.filter((problem): problem is ImportProblem => problem !== undefined);
+  }
+
+  /**
+   * Checks the values of a row against the types of the fields validated by `validateColumns`.
+   */
+  public validateValues(row: Record<string, string>, line: number): ImportProblem[] {
+    const problems: ImportProblem[] = [];
+    const versionData = row.VersionData;
+    if (!row.Title?.trim()) {
+      problems.push({ line, column: 'Title', versionData, problem: 'Title is empty' });
+    }
+    if (!row.PathOnClient?.trim()) {
+      problems.push({ line, column: 'PathOnClient', versionData, problem: 'PathOnClient is empty' });
+    }
+    if (row.ContentType && !CONTENT_TYPE.test(row.ContentType)) {
+      problems.push({
+        line,
+        column: 'ContentType',
+        versionData,
+        problem: `'${row.ContentType}' is not a content type`,
+      });
+    }
+
+    for (const [column, field] of this.columnFields) {
+      const value = row[column];
+      if (!value) {
+        continue;
+      }
+      const check = VALUE_CHECKS[field.type];
+      if (check && !check(value)) {
+        problems.push({ line, column, versionData, problem: `'${value}' is not a valid ${field.type}` });
+      } else if (field.length > 0 && value.length > field.length) {
+        problems.push({ line, column, versionData, problem: `Value is longer than ${field.length} characters` });
+      }
+    }
+    return problems;
+  }
+
+  private describe(objectName: string): Promise<Describe | undefined> {
+    const key = objectName.toLowerCase();
+    let describe = this.describes.get(key);
+    if (!describe) {
+      describe = this.conn.describe(objectName).catch(() => undefined);
+      this.describes.set(key, describe);
+    }
+    return describe;
+  }
+
+  private async validateColumn(column: string, contentVersion: Describe): Promise<string | undefined> {
+    const link = LINK_COLUMN.exec(column);
+    if (link) {
+      return this.validateIdLookup(link[1], link[2]);
+    }
+    if (column.toLowerCase().startsWith('link:')) {
+      return 'Invalid link column, expected Link:<Object>.<ExtField>';
+    }
+
+    if (!column.includes('.')) {
+      const field = findField(contentVersion, (f) => sameName(f.name, column));
+      if (!field) {
+        return `Unknown ContentVersion field ${column}`;
+      }
+      if (!field.createable) {
+        return `ContentVersion field ${field.name} cannot be set`;
+      }
+      this.columnFields.set(column, field);
+      return undefined;
+    }
+
+    const match = LOOKUP_COLUMN.exec(column);
+    if (!match) {
+      return 'Invalid lookup column, expected <LookupField>.<ParentField> or <LookupField>:<ParentObject>.<ParentField>';
+    }
+    const [, relationshipName, parentObject, parentField] = match;
+    const lookup = findField(contentVersion, (f) => sameName(f.relationshipName, relationshipName));
+    if (!lookup) {
+      return `Unknown ContentVersion lookup ${relationshipName}`;
+    }
+    if (!lookup.createable) {
+      return `ContentVersion lookup ${relationshipName} cannot be set`;
+    }
+    const referenceTo = lookup.referenceTo ?? [];
+    if (parentObject) {
+      if (!referenceTo.some((objectName) => sameName(objectName, parentObject))) {
+        return `${relationshipName} cannot reference ${parentObject}`;
+      }
+      return this.validateIdLookup(parentObject, parentField);
+    }
+    if (referenceTo.length !== 1) {
+      return `${relationshipName} is polymorphic, name the parent object as ${relationshipName}:<ParentObject>.${parentField}`;
+    }
+    return this.validateIdLookup(referenceTo[0], parentField);
+  }
+
+  private async validateIdLookup(objectName: string, fieldName: string): Promise<string | undefined> {
+    const describe = await this.describe(objectName);
+    if (!describe) {
+      return `Unknown object ${objectName}`;
+    }
+    const field = findField(describe, (f) => sameName(f.name, fieldName));
+    if (!field) {
+      return `Unknown field ${objectName}.${fieldName}`;
+    }
+    return field.idLookup ? undefined : `${objectName}.${fieldName} is not an idLookup field`;
+  }
+}
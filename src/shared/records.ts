@@ -0,0 +1,54 @@
+import fs from 'node:fs';
+import csvParser from 'csv-parser';
+
+/**
+ * Number of Ids, or other values, looked up per `IN (...)` query, which keeps the queries well within the SOQL length
+ * limit.
+ */
+export const ID_CHUNK_SIZE = 200;
+
+/**
+ * Quotes values for the list of a SOQL `IN (...)` condition, escaping backslashes and single quotes.
+ */
+export function quote(values: string[]): string {
+  return values.map((value) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`).join(',');
+}
+
+/**
+ * Key to compare Ids by: the 15 and 18 character Ids of the same record share their first 15 characters.
+ */
+export function idKey(id: string): string {
+  return id.slice(0, 15);
+}
+
+/**
+ * Splits the values into the chunks looked up by one `IN (...)` query each.
+ */
+export function inChunks<T>(values: T[], size = ID_CHUNK_SIZE): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Reads the rows of a csv file one at a time.
+ */
+export function readCsvRows(csvFilePath: string): AsyncIterable<Record<string, string>> {
+  return fs.createReadStream(csvFilePath).pipe(csvParser());
+}
+
+/**
+ * Reads all of the rows of a csv file, for files that are small enough to be held in memory.
+ */
+export function readCsv(csvFilePath: string): Promise<Array<Record<string, string>>> {
+  const rows: Array<Record<string, string>> = [];
+  return new Promise((resolve, reject) => {
+    fs.createReadStream(csvFilePath)
+      .pipe(csvParser())
+      .on('data', (row: Record<string, string>) => rows.push(row))
+      .on('end', () => resolve(rows))
+      .on('error', reject);
+  });
+}
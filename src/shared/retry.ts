@@ -0,0 +1,111 @@
+import axios from 'axios';
+
+export type RetryOptions = {
+  maxRetries: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  maxRetryAfterMs?: number;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+};
+
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30_000;
+// longest wait a Retry-After header can ask for, so that a bad header does not stall the command indefinitely
+const DEFAULT_MAX_RETRY_AFTER_MS = 5 * 60_000;
+
+// http statuses that signal an overloaded or briefly unavailable server
+const RETRYABLE_STATUSES = new Set([408, 429, 502, 503, 504]);
+
+// socket level failures, the request may succeed when sent again
+const RETRYABLE_NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ECONNABORTED',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ERR_SOCKET_CONNECTION_TIMEOUT',
+]);
+
+// Salesforce error codes, returned for a whole request or for a single record of a composite request
+const RETRYABLE_ERROR_CODES = new Set(['REQUEST_LIMIT_EXCEEDED', 'SERVER_UNAVAILABLE', 'UNABLE_TO_LOCK_ROW']);
+
+/**
+ * Returns true if a record failed with a Salesforce error code that is worth retrying.
+ */
+export function isRetryableErrorCode(errorCode: string | undefined): boolean {
+  return errorCode !== undefined && RETRYABLE_ERROR_CODES.has(errorCode);
+}
+
+/**
+ * Returns true if the error is transient, ie: the same request may succeed when sent again. Errors wrapping another
+ * error through `cause` are retryable if the cause is.
+ */
+export function isRetryable(error: unknown): boolean {
+  if (axios.isAxiosError(error)) {
+    if (!error.response) {
+      return RETRYABLE_NETWORK_CODES.has(error.code ?? '');
+    }
+    const data: unknown = error.response.data;
+    return (
+      RETRYABLE_STATUSES.has(error.response.status) ||
+      (Array.isArray(data) && data.some((apiError: { errorCode?: string }) => isRetryableErrorCode(apiError.errorCode)))
+    );
+  }
+  if (error instanceof Error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    return (
+      (code !== undefined && RETRYABLE_NETWORK_CODES.has(code)) ||
+      (error.cause !== undefined && isRetryable(error.cause))
+    );
+  }
+  return false;
+}
+
+/**
+ * Returns the time to wait before the given retry. The Retry-After header of the failed response is honoured, up to
+ * `maxRetryAfterMs`, otherwise the delay grows exponentially with each attempt, with full jitter so that concurrent requests that failed
+ * together do not retry together.
+ */
+export function retryDelay(attempt: number, error: unknown, options: RetryOptions): number {
+  const retryAfter = axios.isAxiosError(error)
+    ? (error.response?.headers['retry-after'] as string | undefined)
+    : undefined;
+  if (retryAfter !== undefined) {
+    const seconds = Number(retryAfter);
+    const delayMs = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+    if (!Number.isNaN(delayMs)) {
+      return Math.min(Math.max(0, delayMs), options.maxRetryAfterMs ?? DEFAULT_MAX_RETRY_AFTER_MS);
+    }
+  }
+  const ceiling = Math.min(
+    options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+    (options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS) * 2 ** (attempt - 1)
+  );
+  return Math.floor(Math.random() * ceiling);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs the operation, running it again after a delay when it fails with a retryable error, up to `maxRetries` times.
+ * The operation is passed the number of the attempt, starting at 1.
+ */
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      // eslint-disable-next-line no-await-in-loop
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt > options.maxRetries || !isRetryable(error)) {
+        throw error;
+      }
+      const delayMs = retryDelay(attempt, error, options);
+      options.onRetry?.(error, attempt, delayMs);
+      // eslint-disable-next-line no-await-in-loop
+      await sleep(delayMs);
+    }
+  }
+}
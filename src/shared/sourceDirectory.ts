@@ -0,0 +1,51 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { minimatch } from 'minimatch';
+
+export type SourceFileOptions = {
+  recursive: boolean;
+  include?: string[];
+  exclude?: string[];
+};
+
+/**
+ * A file found in the source directory. `relativePath` uses forward slashes on every platform.
+ */
+export type SourceFile = {
+  path: string;
+  relativePath: string;
+};
+
+function matchesAny(relativePath: string, patterns: string[]): boolean {
+  // patterns without a slash match the file name in any folder, like `*.pdf`
+  return patterns.some((pattern) => minimatch(relativePath, pattern, { matchBase: true, dot: true }));
+}
+
+/**
+ * Lists the files of a directory in name order, one folder at a time. A file is listed when it matches one of the
+ * `include` globs, or when there are none, and matches none of the `exclude` globs. The globs are matched against the
+ * path relative to the directory.
+ */
+export async function* listSourceFiles(
+  directory: string,
+  { recursive, include = [], exclude = [] }: SourceFileOptions,
+  relativeDir = ''
+): AsyncGenerator<SourceFile> {
+  const entries = await fs.readdir(path.join(directory, relativeDir), { withFileTypes: true });
+  entries.sort((a, b) => (a.name < b.name ? -1 : 1));
+
+  for (const entry of entries) {
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (recursive) {
+        yield* listSourceFiles(directory, { recursive, include, exclude }, relativePath);
+      }
+    } else if (
+      entry.isFile() &&
+      (include.length === 0 || matchesAny(relativePath, include)) &&
+      !matchesAny(relativePath, exclude)
+    ) {
+      yield { path: path.join(directory, relativePath), relativePath };
+    }
+  }
+}
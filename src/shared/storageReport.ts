@@ -0,0 +1,127 @@
+/**
+ * A ContentVersion counted in the report. Every version of a file takes up storage, not just the latest one.
+ */
+export type ReportVersion = {
+  Id: string;
+  ContentDocumentId: string;
+  Title: string;
+  FileExtension: string | null;
+  FileType: string | null;
+  ContentSize: number;
+  CreatedDate: string;
+  OwnerName: string | null;
+};
+
+/**
+ * One of the largest files, with the object types of the records its document is linked to. The rows have the `Id`
+ * and `FileExtension` columns `fileops export --file` reads.
+ */
+export type ReportFile = ReportVersion & {
+  ObjectTypes: string;
+};
+
+export type SizeGroup = {
+  name: string;
+  files: number;
+  bytes: number;
+};
+
+const UNKNOWN = '(unknown)';
+
+function addTo(groups: Map<string, SizeGroup>, name: string, files: number, bytes: number): void {
+  const group = groups.get(name) ?? { name, files: 0, bytes: 0 };
+  group.files += files;
+  group.bytes += bytes;
+  groups.set(name, group);
+}
+
+function sorted(groups: Map<string, SizeGroup>): SizeGroup[] {
+  return [...groups.values()].sort((a, b) => b.bytes - a.bytes || a.name.localeCompare(b.name));
+}
+
+/**
+ * Adds up the file storage used by ContentVersions, by year, by file type and by the object types of the records
+ * their documents are linked to, and keeps the largest files. Links are added once all versions have been added,
+ * since a link counts every version of its document. To that end the number and size of the versions of every
+ * document are kept, along with the object types it has been counted towards, which takes memory in proportion to
+ * the number of documents, not versions.
+ */
+export class StorageReport {
+  public versions = 0;
+  public bytes = 0;
+  private readonly documentSizes = new Map<string, { files: number; bytes: number }>();
+  private readonly documentTypes = new Map<string, Set<string>>();
+  private readonly years = new Map<string, SizeGroup>();
+  private readonly fileTypes = new Map<string, SizeGroup>();
+  private readonly objectTypes = new Map<string, SizeGroup>();
+  private readonly largest: ReportVersion[] = [];
+
+  public constructor(private readonly topCount: number) {}
+
+  public get documents(): number {
+    return this.documentSizes.size;
+  }
+
+  public documentIds(): string[] {
+    return [...this.documentSizes.keys()];
+  }
+
+  public addVersion(version: ReportVersion): void {
+    const size = version.ContentSize ?? 0;
+    this.versions++;
+    this.bytes += size;
+    const document = this.documentSizes.get(version.ContentDocumentId) ?? { files: 0, bytes: 0 };
+    document.files++;
+    document.bytes += size;
+    this.documentSizes.set(version.ContentDocumentId, document);
+    addTo(this.years, version.CreatedDate?.slice(0, 4) || UNKNOWN, 1, size);
+    addTo(this.fileTypes, version.FileType ?? UNKNOWN, 1, size);
+    this.keepIfLargest(version);
+  }
+
+  /**
+   * Counts the document towards the object type of a record it is linked to. A document shared with records of
+   * several object types counts towards each of them, so these totals can add up to more than the storage used.
+   */
+  public addLink(documentId: string, objectType: string | undefined): void {
+    const document = this.documentSizes.get(documentId);
+    const type = objectType ?? UNKNOWN;
+    const types = this.documentTypes.get(documentId) ?? new Set<string>();
+    if (!document || types.has(type)) {
+      return;
+    }
+    types.add(type);
+    this.documentTypes.set(documentId, types);
+    addTo(this.objectTypes, type, document.files, document.bytes);
+  }
+
+  public topFiles(): ReportFile[] {
+    return this.largest.map((version) => ({
+      ...version,
+      ObjectTypes: [...(this.documentTypes.get(version.ContentDocumentId) ?? [])].sort().join(';'),
+    }));
+  }
+
+  public byObjectType(): SizeGroup[] {
+    return sorted(this.objectTypes);
+  }
+
+  public byYear(): SizeGroup[] {
+    return [...this.years.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  public byFileType(): SizeGroup[] {
+    return sorted(this.fileTypes);
+  }
+
+  // keeps the largest versions in descending order of size, the first one added wins a tie
+  private keepIfLargest(version: ReportVersion): void {
+    const last = this.largest[this.largest.length - 1];
+    if (this.largest.length >= this.topCount && last && last.ContentSize >= version.ContentSize) {
+      return;
+    }
+    const index = this.largest.findIndex((kept) => kept.ContentSize < version.ContentSize);
+    this.largest.splice(index === -1 ? this.largest.length : index, 0, version);
+    this.largest.length = Math.min(this.largest.length, this.topCount);
+  }
+}
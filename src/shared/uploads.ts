@@ -0,0 +1,138 @@
+import { LimitFunction } from './adaptiveLimit.js';
+import { BinPacker, Bin } from './batchPacker.js';
+import { SaveResult } from './contentVersions.js';
+import { RetryOptions, isRetryable, isRetryableErrorCode, retryDelay, sleep } from './retry.js';
+
+export const MAX_SUBREQUESTS = 190; // composite api can have max 200 subrequests. We reduce it by 10 to be safe
+const PACKING_WINDOW = 50; // files packed together, largest first
+const MAX_OPEN_BATCHES = 4; // batches filled at once, the fullest is uploaded when a file needs another one
+
+/**
+ * A file to upload and the size of its data.
+ */
+export type SizedRow<T> = {
+  row: T;
+  size: number;
+};
+
+/**
+ * Files larger than the batch size are sent on their own, with a single record insert instead of a composite request.
+ */
+export type Batch<T> = {
+  rows: T[];
+  single: boolean;
+  size: number;
+};
+
+/**
+ * Packs the files into batches as they are read, so that the uploads start before the last file is known. The files
+ * read together are packed largest first, under both the batch size and the subrequest limit, and a batch is handed out
+ * as soon as it is full. The batches only depend on the order and size of the files.
+ */
+export async function* packBatches<T>(
+  files: AsyncIterable<SizedRow<T>>,
+  maxBatchSize: number
+): AsyncGenerator<Batch<T>> {
+  const packer = new BinPacker<SizedRow<T>>((file) => file.size, maxBatchSize, MAX_SUBREQUESTS, MAX_OPEN_BATCHES);
+  const toBatch = ({ items, size }: Bin<SizedRow<T>>): Batch<T> => ({
+    rows: items.map((file) => file.row),
+    single: false,
+    size,
+  });
+
+  let window: Array<SizedRow<T>> = [];
+  for await (const file of files) {
+    if (file.size > maxBatchSize) {
+      yield { rows: [file.row], single: true, size: file.size };
+    } else {
+      window.push(file);
+    }
+
+    if (window.length >= PACKING_WINDOW) {
+      yield* packer.add(window).map(toBatch);
+      window = [];
+    }
+  }
+  yield* [...packer.add(window), ...packer.flush()].map(toBatch);
+}
+
+/**
+ * Runs `upload` for each batch as the batches are read, within the concurrency limit. No more than `maxQueued` batches
+ * wait for a slot, so that the batches are only read this far ahead of the uploads. When reading the batches fails, the
+ * uploads already started are waited for before the error is thrown.
+ */
+export async function uploadBatches<T>(
+  batches: AsyncIterable<Batch<T>>,
+  limit: LimitFunction,
+  maxQueued: number,
+  upload: (batch: Batch<T>) => Promise<void>
+): Promise<void> {
+  const queued = new Set<Promise<void>>();
+  try {
+    for await (const batch of batches) {
+      const task = limit(() => upload(batch));
+      queued.add(task);
+      void task.then(
+        () => queued.delete(task),
+        () => queued.delete(task)
+      );
+      if (queued.size >= maxQueued) {
+        // eslint-disable-next-line no-await-in-loop
+        await Promise.race(queued);
+      }
+    }
+  } catch (error) {
+    // the batches already handed out are uploaded before the error of the batches is thrown
+    await Promise.allSettled(queued);
+    throw error;
+  }
+  await Promise.all(queued);
+}
+
+/**
+ * Saves the rows with one request per attempt. The request is sent again when it fails with a transient error, and
+ * only the rows that failed with a transient error are sent again after a response, up to `maxRetries` times.
+ * `onResult` is called once per row with its final result. Rejects with the error of a request that failed for good.
+ */
+export async function saveWithRetry<T>(
+  rows: T[],
+  send: (pending: T[], attempt: number) => Promise<SaveResult[]>,
+  options: RetryOptions,
+  onResult: (row: T, result: SaveResult, attempt: number) => void
+): Promise<void> {
+  let pending = rows;
+  for (let attempt = 1; pending.length > 0; attempt++) {
+    let response: SaveResult[];
+    try {
+      // eslint-disable-next-line no-await-in-loop
+      response = await send(pending, attempt);
+    } catch (error) {
+      if (attempt > options.maxRetries || !isRetryable(error)) {
+        throw error;
+      }
+      const delayMs = retryDelay(attempt, error, options);
+      options.onRetry?.(error, attempt, delayMs);
+      // eslint-disable-next-line no-await-in-loop
+      await sleep(delayMs);
+      continue;
+    }
+
+    const retries: T[] = [];
+    let retryError: unknown;
+    response.forEach((result, index) => {
+      if (!result.success && attempt <= options.maxRetries && isRetryableErrorCode(result.errors[0]?.statusCode)) {
+        retries.push(pending[index]);
+        retryError ??= result.errors[0];
+      } else {
+        onResult(pending[index], result, attempt);
+      }
+    });
+    if (retries.length > 0) {
+      const delayMs = retryDelay(attempt, undefined, options);
+      options.onRetry?.(retryError, attempt, delayMs);
+      // eslint-disable-next-line no-await-in-loop
+      await sleep(delayMs);
+    }
+    pending = retries;
+  }
+}
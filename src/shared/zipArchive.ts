@@ -0,0 +1,127 @@
+import fs from 'node:fs';
+import { PassThrough, Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import yauzl from 'yauzl';
+import yazl from 'yazl';
+
+/**
+ * A file in a zip archive. `name` is the path of the file in the archive, with forward slashes.
+ */
+export type ZipEntry = {
+  name: string;
+  size: number;
+  compressedSize: number;
+};
+
+/**
+ * Writes a zip archive with yazl, compressing the data as it is streamed in, so that neither the archive nor its files
+ * have to fit in memory. The entries are written in the order they are added, a file once it is opened.
+ */
+export class ZipWriter {
+  private readonly zip = new yazl.ZipFile();
+  private readonly written: Promise<void>;
+
+  private constructor(filePath: string) {
+    const failed = new Promise<never>((_, reject) => {
+      this.zip.once('error', reject);
+    });
+    this.written = Promise.race([pipeline(this.zip.outputStream, fs.createWriteStream(filePath)), failed]);
+    // write errors are reported to the callers of the writes
+    this.written.catch(() => undefined);
+  }
+
+  public static create(filePath: string): ZipWriter {
+    return new ZipWriter(filePath);
+  }
+
+  /**
+   * Adds a file, resolving once its data is read, after which the file may be removed. A file that cannot be opened
+   * is left out, and the entries after it are still written.
+   */
+  public async addFile(name: string, sourcePath: string): Promise<void> {
+    const file = await fs.promises.open(sourcePath, 'r');
+    const data = file.createReadStream();
+    const read = new Promise<void>((resolve, reject) => {
+      data.once('end', resolve).once('error', reject);
+    });
+    this.zip.addReadStream(data, name);
+    await Promise.race([read, this.written]);
+  }
+
+  public addData(name: string, data: string | Buffer): Promise<void> {
+    this.zip.addBuffer(Buffer.from(data), name);
+    return Promise.resolve();
+  }
+
+  /**
+   * Writes the central directory once every entry added so far is written, and closes the archive.
+   */
+  public async close(): Promise<void> {
+    this.zip.end();
+    await this.written;
+  }
+}
+
+/**
+ * Reads the entries of a zip archive with yauzl, and streams the data of an entry straight from the archive, without
+ * extracting it. The archive stays open until it is closed.
+ */
+export class ZipReader {
+  private constructor(private readonly zip: yauzl.ZipFile, private readonly entries: Map<string, yauzl.Entry>) {}
+
+  public static async open(filePath: string): Promise<ZipReader> {
+    const zip = await yauzl.openPromise(filePath, { lazyEntries: true, autoClose: false });
+    const entries = new Map<string, yauzl.Entry>();
+    try {
+      for await (const entry of zip.eachEntry()) {
+        if (!entry.fileName.endsWith('/')) {
+          entries.set(entry.fileName, entry);
+        }
+      }
+    } catch (error) {
+      zip.close();
+      throw error;
+    }
+    return new ZipReader(zip, entries);
+  }
+
+  private static toZipEntry(entry: yauzl.Entry): ZipEntry {
+    return { name: entry.fileName, size: entry.uncompressedSize, compressedSize: entry.compressedSize };
+  }
+
+  /**
+   * The files in the archive, in the order of the central directory. Folders are left out.
+   */
+  public list(): ZipEntry[] {
+    return [...this.entries.values()].map((entry) => ZipReader.toZipEntry(entry));
+  }
+
+  public get(name: string): ZipEntry | undefined {
+    const entry = this.entries.get(name);
+    return entry && ZipReader.toZipEntry(entry);
+  }
+
+  /**
+   * Streams the uncompressed data of an entry from the archive. The data starts flowing once yauzl has read the local
+   * header of the entry, and an entry that cannot be read fails the stream.
+   */
+  public openEntry({ name }: ZipEntry): Readable {
+    const data = new PassThrough();
+    const entry = this.entries.get(name);
+    if (!entry) {
+      return data.destroy(new Error(`${name} is not in the archive`));
+    }
+    this.zip.openReadStream(entry, (error, stream) => {
+      if (error) {
+        data.destroy(error);
+      } else {
+        stream.once('error', (streamError) => data.destroy(streamError)).pipe(data);
+      }
+    });
+    return data;
+  }
+
+  public close(): void {
+    this.zip.close();
+  }
+}
@@ -0,0 +1,183 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { Readable } from 'node:stream';
+import { Connection } from '@salesforce/core';
+import { TestContext } from '@salesforce/core/testSetup';
+import { expect } from 'chai';
+import { SfCommand, stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import { SinonStub } from 'sinon';
+import axios from 'axios';
+import FileDelete from '../../../src/commands/fileops/delete.js';
+
+type QueryResult = Awaited<ReturnType<Connection['query']>>;
+
+describe('file delete', () => {
+  const $$ = new TestContext();
+  let sfCommandStubs: ReturnType<typeof stubSfCommandUx>;
+  let queryStub: SinonStub;
+  let deleteStub: SinonStub;
+  let writeFileStub: SinonStub;
+  let directory: string;
+  let csvPath: string;
+
+  const documents = [
+    { Id: '069A', Title: 'Report', FileExtension: 'pdf', LatestPublishedVersionId: '068A2' },
+    { Id: '069B', Title: 'Notes', FileExtension: 'txt', LatestPublishedVersionId: '068B1' },
+  ];
+  const versions = [
+    { Id: '068A1', ContentDocumentId: '069A', ContentSize: 100 },
+    { Id: '068A2', ContentDocumentId: '069A', ContentSize: 150 },
+    { Id: '068B1', ContentDocumentId: '069B', ContentSize: 5 },
+  ];
+  const md5 = (data: string): string => crypto.createHash('md5').update(data).digest('hex');
+
+  beforeEach(() => {
+    sfCommandStubs = stubSfCommandUx($$.SANDBOX);
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'fileops-delete-test-'));
+    csvPath = path.join(directory, 'files.csv');
+    fs.writeFileSync(csvPath, 'Name,Id\nfirst version,068A1\nnotes,069B\nagain,068A2\nunknown,068Z\nbad,001X');
+    writeFileStub = $$.SANDBOX.stub(fs.promises, 'writeFile').resolves();
+    queryStub = $$.SANDBOX.stub(Connection.prototype, 'query').callsFake(((soql: string) => {
+      let records: unknown[] = [];
+      if (soql.startsWith('SELECT Id, ContentDocumentId FROM ContentVersion')) {
+        records = versions.filter((version) => soql.includes(`'${version.Id}'`));
+      } else if (soql.includes('FROM ContentDocument WHERE Id IN')) {
+        records = documents.filter((document) => soql.includes(`'${document.Id}'`));
+      } else if (soql.includes('WHERE ContentDocumentId IN')) {
+        records = versions.filter((version) => soql.includes(`'${version.ContentDocumentId}'`));
+      } else if (soql.includes('Checksum')) {
+        records = [
+          { Id: '068A2', Checksum: md5('report'), ContentSize: 6 },
+          { Id: '068B1', Checksum: md5('notes'), ContentSize: 5 },
+        ];
+      } else if (soql.startsWith('SELECT Id FROM ContentDocument WHERE')) {
+        records = [{ Id: '069A' }, { Id: '069B' }];
+      }
+      return Promise.resolve({ done: true, totalSize: records.length, records } as unknown as QueryResult);
+    }) as unknown as Connection['query']);
+    deleteStub = $$.SANDBOX.stub(axios, 'delete').resolves({
+      data: [
+        { success: true, id: '069A', errors: [] },
+        { success: true, id: '069B', errors: [] },
+      ],
+      headers: {},
+    });
+  });
+
+  afterEach(() => {
+    $$.restore();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should preview the documents and bytes to delete on a dry run', async () => {
+    const result = await FileDelete.run(['--file', csvPath, '--dry-run', '--target-org', 'mockOrg']);
+
+    expect(result).to.include({ total: 5, deleted: 0, failed: 2, totalBytes: 255 });
+    expect(result.results.map((row) => [row.id, row.error])).to.deep.equal([
+      ['068Z', 'File not found'],
+      ['001X', 'Not a ContentVersion or ContentDocument Id'],
+    ]);
+    expect(sfCommandStubs.log.calledWith('Documents to delete: 2, Total size: 255 bytes')).to.be.true;
+    expect(deleteStub.called).to.be.false;
+    expect(writeFileStub.called).to.be.false;
+  });
+
+  it('should not delete anything when the deletion is not confirmed', async () => {
+    const confirmStub = $$.SANDBOX.stub(SfCommand.prototype, 'confirm').resolves(false);
+
+    const result = await FileDelete.run(['--file', csvPath, '--target-org', 'mockOrg']);
+
+    expect(confirmStub.calledOnce).to.be.true;
+    expect(result.deleted).to.equal(0);
+    expect(deleteStub.called).to.be.false;
+  });
+
+  it('should refuse to delete with json output unless the prompt is turned off', async () => {
+    const confirmStub = $$.SANDBOX.stub(SfCommand.prototype, 'confirm').resolves(true);
+
+    try {
+      await FileDelete.run(['--file', csvPath, '--json', '--target-org', 'mockOrg']);
+      expect.fail('expected the command to fail');
+    } catch (error) {
+      expect((error as Error).message).to.include('needs --no-prompt');
+    }
+    expect(confirmStub.called).to.be.false;
+    expect(deleteStub.called).to.be.false;
+  });
+
+  it('should delete every document once and write the rows that failed with their columns', async () => {
+    $$.SANDBOX.stub(Math, 'random').returns(0);
+    deleteStub.onFirstCall().resolves({
+      data: [
+        { success: true, id: '069A', errors: [] },
+        { success: false, id: '069B', errors: [{ message: 'Locked', statusCode: 'UNABLE_TO_LOCK_ROW', fields: [] }] },
+      ],
+      headers: {},
+    });
+    deleteStub.onSecondCall().resolves({
+      data: [
+        {
+          success: false,
+          id: '069B',
+          errors: [{ message: 'Insufficient access', statusCode: 'INSUFFICIENT_ACCESS_OR_READONLY', fields: [] }],
+        },
+      ],
+      headers: {},
+    });
+
+    const result = await FileDelete.run([
+      '--file',
+      csvPath,
+      '--no-prompt',
+      '--error-file',
+      'delete-errors.csv',
+      '--target-org',
+      'mockOrg',
+    ]);
+
+    expect(deleteStub.firstCall.args[0]).to.include('/composite/sobjects?ids=069A,069B&allOrNone=false');
+    expect(deleteStub.secondCall.args[0]).to.include('?ids=069B&');
+    expect(result).to.include({ total: 5, deleted: 1, failed: 3 });
+    expect(sfCommandStubs.log.calledWith('Documents to delete: 2, Total size: 255 bytes')).to.be.true;
+    expect(sfCommandStubs.log.calledWith('Deleted 1 of 2 documents, 250 bytes.')).to.be.true;
+    const errorsWrite = writeFileStub.getCalls().find((call) => call.args[0] === 'delete-errors.csv');
+    expect(String(errorsWrite?.args[1]).split('\n')).to.deep.equal([
+      '"Name","Id","Error","ErrorStatusText","Attempts"',
+      '"unknown","068Z","File not found",,',
+      '"bad","001X","Not a ContentVersion or ContentDocument Id",,',
+      '"notes","069B","Insufficient access","INSUFFICIENT_ACCESS_OR_READONLY",2',
+    ]);
+  });
+
+  it('should only delete the documents whose backup could be checked', async () => {
+    const backupDir = path.join(directory, 'backup');
+    $$.SANDBOX.stub(axios, 'get').callsFake((url: string) =>
+      Promise.resolve({
+        data: Readable.from([Buffer.from(url.includes('068A2') ? 'report' : 'notez')]),
+        headers: {},
+      })
+    );
+    deleteStub.resolves({ data: [{ success: true, id: '069A', errors: [] }], headers: {} });
+
+    const result = await FileDelete.run([
+      '--where',
+      "FileExtension = 'pdf'",
+      '--backup-dir',
+      backupDir,
+      '--no-prompt',
+      '--target-org',
+      'mockOrg',
+    ]);
+
+    expect(queryStub.calledWith("SELECT Id FROM ContentDocument WHERE FileExtension = 'pdf'")).to.be.true;
+    expect(fs.readFileSync(path.join(backupDir, '068A2.pdf'), 'utf8')).to.equal('report');
+    expect(fs.existsSync(path.join(backupDir, '068B1.txt'))).to.be.false;
+    expect(fs.readFileSync(path.join(backupDir, 'fileops-manifest.csv'), 'utf8')).to.include('"068A2","068A2.pdf",6');
+    expect(deleteStub.firstCall.args[0]).to.include('?ids=069A&');
+    expect(result.results.find((row) => row.contentDocumentId === '069B')?.error).to.match(
+      /^Not deleted, the backup failed: Integrity check failed/
+    );
+  });
+});
@@ -1,17 +1,38 @@
+import crypto from 'node:crypto';
 import fs, { PathLike, Stats } from 'node:fs';
+import os from 'node:os';
+import { join } from 'node:path';
 import { Readable } from 'node:stream';
+import { Connection } from '@salesforce/core';
 import { TestContext } from '@salesforce/core/testSetup';
 import { expect } from 'chai';
 import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
 import sinon, { SinonStub } from 'sinon';
-import axios from 'axios';
+import axios, { AxiosError, AxiosResponse as AxiosErrorResponse } from 'axios';
 import FileExport from '../../../src/commands/fileops/export.js';
+import { ExportManifest } from '../../../src/shared/exportManifest.js';
+import { ApiBudgetExhaustedError } from '../../../src/shared/apiBudget.js';
+import { ZipReader } from '../../../src/shared/zipArchive.js';
+
+type QueryResult = Awaited<ReturnType<Connection['query']>>;
 
 type AxiosResponse = {
   data: Readable;
   headers: Record<string, string>;
 };
 
+const link = (contentDocumentId: string, linkedEntityId: string, versionId: string, ext: string) => ({
+  attributes: { type: 'ContentDocumentLink', url: `/sobjects/ContentDocumentLink/${contentDocumentId}` },
+  ContentDocumentId: contentDocumentId,
+  LinkedEntityId: linkedEntityId,
+  ContentDocument: {
+    attributes: { type: 'ContentDocument', url: `/sobjects/ContentDocument/${contentDocumentId}` },
+    LatestPublishedVersionId: versionId,
+    Title: 'Shared',
+    FileExtension: ext,
+  },
+});
+
 describe('file export', () => {
   const $$: TestContext = new TestContext();
   let sfCommandStubs: ReturnType<typeof stubSfCommandUx>;
@@ -19,9 +40,13 @@ describe('file export', () => {
   let createReadStreamStub: SinonStub;
   let writeStreamStub: SinonStub;
   let axiosGetStub: SinonStub;
+  let appendFileSyncStub: SinonStub;
+  let writeFileSyncStub: SinonStub;
 
   beforeEach(() => {
     sfCommandStubs = stubSfCommandUx($$.SANDBOX);
+    writeFileSyncStub = $$.SANDBOX.stub(fs, 'writeFileSync');
+    appendFileSyncStub = $$.SANDBOX.stub(fs, 'appendFileSync');
 
     // this is needed for flag exists: true check to work with a mock file
     $$.SANDBOX.stub(fs.promises, 'stat').resolves({
@@ -51,6 +76,7 @@ describe('file export', () => {
       }),
       once: sinon.stub(),
       emit: sinon.stub(),
+      bytesWritten: 8,
     } as unknown as fs.WriteStream);
 
     axiosGetStub = $$.SANDBOX.stub(axios, 'get').callsFake((url: string) => {
@@ -135,6 +161,95 @@ describe('file export', () => {
     }
   });
 
+  it('should retry downloads that fail with a transient error', async () => {
+    const unavailable = (): AxiosError =>
+      new AxiosError('Service Unavailable', 'ERR_BAD_RESPONSE', undefined, undefined, {
+        status: 503,
+        statusText: 'Service Unavailable',
+        headers: { 'retry-after': '0' },
+        data: undefined,
+      } as unknown as AxiosErrorResponse);
+    const calls = new Map<string, number>();
+    axiosGetStub.callsFake((url: string) => {
+      const count = (calls.get(url) ?? 0) + 1;
+      calls.set(url, count);
+      if (url.includes('12345') || count === 1) {
+        return Promise.reject(unavailable());
+      }
+      return Promise.resolve({
+        data: new Readable({
+          read() {
+            this.push(Buffer.from('somedata'));
+            this.push(null);
+          },
+        }),
+        headers: {},
+      } as AxiosResponse);
+    });
+
+    const result = await FileExport.run([
+      '--file',
+      './mock.csv',
+      '--output-dir',
+      './output',
+      '--max-retries',
+      '1',
+      '--target-org',
+      'mockOrg',
+    ]);
+
+    expect(result).to.deep.equal({ successCount: 1, failureCount: 1, skippedCount: 0, notAttemptedCount: 0 });
+    expect(axiosGetStub.callCount).to.equal(4);
+    const errorsWrite = writeFileSyncStub.getCalls().find((call) => String(call.args[0]).startsWith('errors'));
+    expect(errorsWrite?.args[1]).to.match(/^"12345".*"503".*,2$/m);
+  });
+
+  it('should write the failed rows of an error file passed back to the error file path', async () => {
+    createReadStreamStub.callsFake(() =>
+      Readable.from([Buffer.from('Id,Name,Error,Attempts\n12345,Report,Download failed,3')])
+    );
+    axiosGetStub.rejects(new Error('Still failing'));
+
+    const result = await FileExport.run([
+      '--file',
+      './errors.csv',
+      '--output-dir',
+      './output',
+      '--error-file',
+      'retry-errors.csv',
+      '--target-org',
+      'mockOrg',
+    ]);
+
+    expect(result).to.include({ successCount: 0, failureCount: 1 });
+    const errorsWrite = writeFileSyncStub.getCalls().find((call) => call.args[0] === 'retry-errors.csv');
+    const [header, row] = String(errorsWrite?.args[1]).split('\n');
+    expect(header).to.equal('"Id","Name","Error","ErrorDetails","ErrorStatus","ErrorStatusText","ErrorUrl","Attempts"');
+    expect(row).to.match(/^"12345","Report","Error processing row with ID 12345","Still failing",.*,1$/);
+    expect(sfCommandStubs.log.calledWith('Errors written to retry-errors.csv')).to.be.true;
+  });
+
+  it('should stop starting downloads once the api call budget is used', async () => {
+    const result = await FileExport.run([
+      '--file',
+      './mock.csv',
+      '--output-dir',
+      './output',
+      '--concurrency',
+      '1',
+      // the request refreshAuth sends to check the access token counts as well
+      '--max-api-calls',
+      '2',
+      '--target-org',
+      'mockOrg',
+    ]);
+
+    expect(result).to.deep.equal({ successCount: 1, failureCount: 0, skippedCount: 0, notAttemptedCount: 1 });
+    expect(axiosGetStub.callCount).to.equal(1);
+    expect(sfCommandStubs.warn.calledWithMatch('1 of 2 files were not exported')).to.be.true;
+    expect(sfCommandStubs.log.calledWith('API calls made: 2')).to.be.true;
+  });
+
   it('should fail when CSV file cannot be read', async () => {
     createReadStreamStub.throws(new Error('File not found'));
 
@@ -226,4 +341,629 @@ describe('file export', () => {
     expect(axiosUrlIds).to.not.include('11111/VersionData'); // ensure the default id field is not being used
     expect(writeStreamStub.callCount, 'expected write stream to be called twice').to.equal(2);
   });
+
+  it('should record every exported file in the manifest', async () => {
+    await FileExport.run([
+      '--file',
+      './mock.csv',
+      '--output-dir',
+      './output',
+      '--concurrency',
+      '1',
+      '--target-org',
+      'mockOrg',
+    ]);
+
+    const manifestLines = appendFileSyncStub.getCalls().map((call) => call.args[1] as string);
+    expect(manifestLines).to.have.lengthOf(2);
+    expect(manifestLines.join('')).to.include('"12345","12345",8,"success"');
+    expect(manifestLines.join('')).to.include('"67890","67890",8,"success"');
+  });
+
+  it('should skip ids that were exported successfully in a previous run when resuming', async () => {
+    const manifestCsv = 'id,fileName,size,status\n12345,12345,8,success\n67890,,0,failed';
+    createReadStreamStub.callsFake((path: PathLike) => {
+      const content = String(path).endsWith(ExportManifest.FILE_NAME) ? manifestCsv : csvData;
+      return new Readable({
+        read() {
+          this.push(Buffer.from(content));
+          this.push(null);
+        },
+      }) as fs.ReadStream;
+    });
+    $$.SANDBOX.stub(fs, 'existsSync').returns(true);
+
+    const result = await FileExport.run([
+      '--file',
+      './mock.csv',
+      '--output-dir',
+      './output',
+      '--target-org',
+      'mockOrg',
+      '--resume',
+    ]);
+
+    expect(result.skippedCount).to.equal(1);
+    expect(result.successCount).to.equal(1);
+    expect(axiosGetStub.callCount, 'expected only the failed id to be downloaded').to.equal(1);
+    expect(axiosGetStub.firstCall.args[0]).to.include('67890/VersionData');
+  });
+
+  it('should export the files returned by every page of a query', async () => {
+    const queryStub = $$.SANDBOX.stub(Connection.prototype, 'query').resolves({
+      done: false,
+      totalSize: 2,
+      nextRecordsUrl: '/services/data/v62.0/query/01g-2000',
+      records: [
+        {
+          attributes: { type: 'ContentVersion', url: '/sobjects/ContentVersion/068A' },
+          Id: '068A',
+          Title: 'Report',
+          FileExtension: 'pdf',
+        },
+      ],
+    } as QueryResult);
+    const queryMoreStub = $$.SANDBOX.stub(Connection.prototype, 'queryMore').resolves({
+      done: true,
+      totalSize: 2,
+      records: [
+        {
+          attributes: { type: 'ContentVersion', url: '/sobjects/ContentVersion/068B' },
+          Id: '068B',
+          Title: 'Notes',
+          FileExtension: 'docx',
+        },
+      ],
+    } as QueryResult);
+
+    const result = await FileExport.run([
+      '--query',
+      'SELECT Id, Title, FileExtension FROM ContentVersion',
+      '--output-dir',
+      './output',
+      '--concurrency',
+      '1',
+      '--target-org',
+      'mockOrg',
+    ]);
+
+    expect(queryStub.calledWith('SELECT Id, Title, FileExtension FROM ContentVersion')).to.be.true;
+    expect(queryMoreStub.calledOnceWith('/services/data/v62.0/query/01g-2000')).to.be.true;
+    expect(createReadStreamStub.called, 'no csv file should be read').to.be.false;
+    expect(result.successCount).to.equal(2);
+    const writtenFiles = writeStreamStub.getCalls().map((call) => call.args[0] as string);
+    expect(writtenFiles).to.have.lengthOf(2);
+    expect(writtenFiles[0]).to.match(/068A\.pdf$/);
+    expect(writtenFiles[1]).to.match(/068B\.docx$/);
+  });
+
+  it('should fail downloads that do not match the checksum of the ContentVersion', async () => {
+    createReadStreamStub.callsFake(
+      () =>
+        new Readable({
+          read() {
+            this.push(Buffer.from('Id\n068000000000001AAA\n068000000000002AAA'));
+            this.push(null);
+          },
+        }) as fs.ReadStream
+    );
+    const checksum = crypto.createHash('md5').update('somedata').digest('hex');
+    const queryStub = $$.SANDBOX.stub(Connection.prototype, 'query').resolves({
+      done: true,
+      totalSize: 2,
+      records: [
+        { Id: '068000000000001AAA', Checksum: checksum, ContentSize: 8 },
+        { Id: '068000000000002AAA', Checksum: checksum, ContentSize: 9 },
+      ],
+    } as unknown as QueryResult);
+    const rmSyncStub = $$.SANDBOX.stub(fs, 'rmSync');
+
+    const result = await FileExport.run([
+      '--file',
+      './mock.csv',
+      '--output-dir',
+      './output',
+      '--concurrency',
+      '1',
+      '--max-retries',
+      '0',
+      '--target-org',
+      'mockOrg',
+    ]);
+
+    expect(
+      queryStub.calledWithMatch(
+        "SELECT Id, Checksum, ContentSize FROM ContentVersion WHERE Id IN ('068000000000001AAA','068000000000002AAA')"
+      )
+    ).to.be.true;
+    expect(result).to.include({ successCount: 1, failureCount: 1 });
+    expect(rmSyncStub.calledOnce).to.be.true;
+    expect(String(rmSyncStub.firstCall.args[0])).to.match(/068000000000002AAA$/);
+    const errorsWrite = writeFileSyncStub.getCalls().find((call) => String(call.args[0]).startsWith('errors'));
+    expect(errorsWrite?.args[1]).to.include('Integrity check failed: expected 9 bytes');
+  });
+
+  it('should delete the partial file of a download that fails part way', async () => {
+    axiosGetStub.callsFake((url: string) => {
+      const data = new Readable({
+        read() {
+          this.push(Buffer.from('some'));
+          if (url.includes('67890')) {
+            this.destroy(new Error('socket hang up'));
+          } else {
+            this.push(null);
+          }
+        },
+      });
+      return Promise.resolve({ data, headers: {} });
+    });
+    const rmSyncStub = $$.SANDBOX.stub(fs, 'rmSync');
+
+    const result = await FileExport.run([
+      '--file',
+      './mock.csv',
+      '--output-dir',
+      './output',
+      '--concurrency',
+      '1',
+      '--max-retries',
+      '0',
+      '--target-org',
+      'mockOrg',
+    ]);
+
+    expect(result).to.include({ successCount: 1, failureCount: 1 });
+    expect(rmSyncStub.calledOnce).to.be.true;
+    expect(String(rmSyncStub.firstCall.args[0])).to.match(/67890$/);
+  });
+
+  it('should reject a query that is not against ContentVersion', async () => {
+    try {
+      await FileExport.run([
+        '--query',
+        'SELECT Id FROM Account',
+        '--output-dir',
+        './output',
+        '--target-org',
+        'mockOrg',
+      ]);
+      expect.fail('expected the command to fail');
+    } catch (error) {
+      expect((error as Error).message).to.include('ContentVersion');
+    }
+  });
+
+  it('should export files linked to parent records into a folder per parent', async () => {
+    const mkdirSyncStub = $$.SANDBOX.stub(fs, 'mkdirSync');
+    $$.SANDBOX.stub(fs, 'rmSync');
+    const copyFileSyncStub = $$.SANDBOX.stub(fs, 'copyFileSync');
+    const queryStub = $$.SANDBOX.stub(Connection.prototype, 'query').resolves({
+      done: true,
+      totalSize: 3,
+      records: [
+        link('069X', '12345', '068X', 'pdf'),
+        link('069X', '67890', '068X', 'pdf'),
+        link('069Y', '67890', '068Y', 'txt'),
+      ],
+    } as QueryResult);
+
+    const result = await FileExport.run([
+      '--parent-file',
+      './accounts.csv',
+      '--output-dir',
+      './output',
+      '--concurrency',
+      '1',
+      '--target-org',
+      'mockOrg',
+    ]);
+
+    const linkQuery = queryStub.getCalls().find((call) => call.args[0].includes('ContentDocumentLink'));
+    expect(linkQuery?.args[0]).to.include("LinkedEntityId IN ('12345','67890')");
+    expect(result.successCount, 'shared documents should be downloaded once').to.equal(2);
+    expect(axiosGetStub.callCount).to.equal(2);
+    const writtenFiles = writeStreamStub.getCalls().map((call) => call.args[0] as string);
+    expect(writtenFiles[0]).to.match(/12345.068X\.pdf$/);
+    expect(writtenFiles[1]).to.match(/67890.068Y\.txt$/);
+    expect(mkdirSyncStub.called, 'parent folders should be created').to.be.true;
+    expect(copyFileSyncStub.calledOnce).to.be.true;
+    expect(copyFileSyncStub.firstCall.args[0]).to.match(/12345.068X\.pdf$/);
+    expect(copyFileSyncStub.firstCall.args[1]).to.match(/67890.068X\.pdf$/);
+  });
+
+  it('should copy a file to a parent found on a later page of links', async () => {
+    $$.SANDBOX.stub(fs, 'mkdirSync');
+    $$.SANDBOX.stub(fs, 'rmSync');
+    const copyFileSyncStub = $$.SANDBOX.stub(fs, 'copyFileSync');
+    $$.SANDBOX.stub(Connection.prototype, 'query').resolves({
+      done: false,
+      totalSize: 3,
+      nextRecordsUrl: '/services/data/v62.0/query/01g-2000',
+      records: [link('069X', '12345', '068X', 'pdf'), link('069Y', '67890', '068Y', 'txt')],
+    } as QueryResult);
+    $$.SANDBOX.stub(Connection.prototype, 'queryMore').resolves({
+      done: true,
+      totalSize: 3,
+      records: [link('069X', '67890', '068X', 'pdf')],
+    } as QueryResult);
+
+    const result = await FileExport.run([
+      '--parent-file',
+      './accounts.csv',
+      '--output-dir',
+      './output',
+      '--concurrency',
+      '1',
+      '--target-org',
+      'mockOrg',
+    ]);
+
+    expect(result.successCount, 'shared documents should be downloaded once').to.equal(2);
+    expect(axiosGetStub.callCount).to.equal(2);
+    expect(copyFileSyncStub.calledOnce).to.be.true;
+    expect(copyFileSyncStub.firstCall.args[0]).to.match(/12345.068X\.pdf$/);
+    expect(copyFileSyncStub.firstCall.args[1]).to.match(/67890.068X\.pdf$/);
+  });
+
+  it('should name the copy for a parent found on a later page without replacing the file of another document', async () => {
+    $$.SANDBOX.stub(fs, 'mkdirSync');
+    const rmSyncStub = $$.SANDBOX.stub(fs, 'rmSync');
+    const copyFileSyncStub = $$.SANDBOX.stub(fs, 'copyFileSync');
+    $$.SANDBOX.stub(Connection.prototype, 'query').resolves({
+      done: false,
+      totalSize: 3,
+      nextRecordsUrl: '/services/data/v62.0/query/01g-2000',
+      records: [link('069X', '12345', '068X', 'pdf'), link('069Y', '67890', '068Y', 'pdf')],
+    } as QueryResult);
+    $$.SANDBOX.stub(Connection.prototype, 'queryMore').resolves({
+      done: true,
+      totalSize: 3,
+      records: [link('069X', '67890', '068X', 'pdf')],
+    } as QueryResult);
+
+    await FileExport.run([
+      '--parent-file',
+      './accounts.csv',
+      '--output-dir',
+      './output',
+      '--concurrency',
+      '1',
+      '--filename-template',
+      '{Title}.{ext}',
+      '--target-org',
+      'mockOrg',
+    ]);
+
+    const otherDocument = writeStreamStub.getCalls().map((call) => call.args[0] as string)[1];
+    expect(otherDocument).to.match(/67890.Shared(_1)?\.pdf$/);
+    expect(copyFileSyncStub.calledOnce).to.be.true;
+    expect(copyFileSyncStub.firstCall.args[1]).to.match(/67890.Shared(_1)?\.pdf$/);
+    expect(copyFileSyncStub.firstCall.args[1]).to.not.equal(otherDocument);
+    expect(rmSyncStub.getCalls().some((call) => String(call.args[0]).includes('67890'))).to.be.false;
+  });
+
+  it('should name files using the filename template without overwriting', async () => {
+    createReadStreamStub.callsFake(
+      () =>
+        new Readable({
+          read() {
+            this.push(Buffer.from('Id,Title,FileExtension\n12345,Report,pdf\n67890,Report,pdf'));
+            this.push(null);
+          },
+        }) as fs.ReadStream
+    );
+
+    await FileExport.run([
+      '--file',
+      './mock.csv',
+      '--output-dir',
+      './output',
+      '--concurrency',
+      '1',
+      '--ext-col-name',
+      'FileExtension',
+      '--filename-template',
+      '{Title}.{ext}',
+      '--target-org',
+      'mockOrg',
+    ]);
+
+    const writtenFiles = writeStreamStub.getCalls().map((call) => call.args[0] as string);
+    expect(writtenFiles[0]).to.match(/output.Report\.pdf$/);
+    expect(writtenFiles[1]).to.match(/output.Report_1\.pdf$/);
+  });
+
+  it('should write an import-ready metadata file for the exported files', async () => {
+    createReadStreamStub.callsFake(
+      () =>
+        new Readable({
+          read() {
+            this.push(Buffer.from('Id,Title,Description\n12345,Report,Yearly report\n67890,,'));
+            this.push(null);
+          },
+        }) as fs.ReadStream
+    );
+
+    await FileExport.run([
+      '--file',
+      './mock.csv',
+      '--output-dir',
+      './output',
+      '--concurrency',
+      '1',
+      '--metadata-file',
+      'files.csv',
+      '--metadata-fields',
+      'Description',
+      '--target-org',
+      'mockOrg',
+    ]);
+
+    const metadataWrite = writeFileSyncStub.getCalls().find((call) => call.args[0] === 'files.csv');
+    expect(metadataWrite, 'metadata file should be written').to.not.be.undefined;
+    const [header, ...lines] = (metadataWrite?.args[1] as string).split(/\r?\n/);
+    expect(header).to.equal('"Title","PathOnClient","VersionData","Description"');
+    expect(lines).to.have.lengthOf(2);
+    expect(lines[0]).to.match(/^"Report","12345",".*12345","Yearly report"$/);
+    expect(lines[1]).to.match(/^"67890","67890",".*67890",""$/);
+  });
+
+  it('should write the exported files, the manifest and the metadata file into a zip archive', async () => {
+    [createReadStreamStub, writeStreamStub, writeFileSyncStub, appendFileSyncStub].forEach((stub) => stub.restore());
+    const directory = fs.mkdtempSync(join(os.tmpdir(), 'fileops-export-test-'));
+    const csvFile = join(directory, 'ids.csv');
+    const archivePath = join(directory, 'files.zip');
+    fs.writeFileSync(csvFile, 'Id,Title\n12345,Report\n67890,Notes');
+
+    try {
+      await FileExport.run([
+        '--file',
+        csvFile,
+        '--archive',
+        archivePath,
+        '--metadata-file',
+        'files.csv',
+        '--target-org',
+        'mockOrg',
+      ]);
+
+      const archive = await ZipReader.open(archivePath);
+      expect(archive.list().map((entry) => entry.name)).to.have.members([
+        '12345',
+        '67890',
+        'files.csv',
+        ExportManifest.FILE_NAME,
+      ]);
+      expect(archive.get('12345')?.size).to.equal('somedata'.length);
+      const metadata = await new Promise<string>((resolve, reject) => {
+        let csv = '';
+        archive
+          .openEntry(archive.get('files.csv')!)
+          .on('data', (chunk: Buffer) => (csv += String(chunk)))
+          .on('end', () => resolve(csv))
+          .on('error', reject);
+      });
+      expect(metadata).to.include('"Report","12345","12345"');
+      archive.close();
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should add a file to the folder of a parent found on a later page of links in a zip archive', async () => {
+    [createReadStreamStub, writeStreamStub, writeFileSyncStub, appendFileSyncStub].forEach((stub) => stub.restore());
+    const directory = fs.mkdtempSync(join(os.tmpdir(), 'fileops-export-test-'));
+    const parentFile = join(directory, 'accounts.csv');
+    const archivePath = join(directory, 'files.zip');
+    fs.writeFileSync(parentFile, csvData);
+    $$.SANDBOX.stub(Connection.prototype, 'query').resolves({
+      done: false,
+      totalSize: 3,
+      nextRecordsUrl: '/services/data/v62.0/query/01g-2000',
+      records: [link('069X', '12345', '068X', 'pdf'), link('069Y', '67890', '068Y', 'txt')],
+    } as QueryResult);
+    $$.SANDBOX.stub(Connection.prototype, 'queryMore').resolves({
+      done: true,
+      totalSize: 3,
+      records: [link('069X', '67890', '068X', 'pdf')],
+    } as QueryResult);
+
+    try {
+      await FileExport.run([
+        '--parent-file',
+        parentFile,
+        '--archive',
+        archivePath,
+        '--concurrency',
+        '1',
+        '--target-org',
+        'mockOrg',
+      ]);
+
+      const archive = await ZipReader.open(archivePath);
+      expect(archive.list().map((entry) => [entry.name, entry.size])).to.have.deep.members([
+        ['12345/068X.pdf', 'somedata'.length],
+        ['67890/068Y.txt', 'somedata'.length],
+        ['67890/068X.pdf', 'somedata'.length],
+        [ExportManifest.FILE_NAME, archive.get(ExportManifest.FILE_NAME)?.size],
+      ]);
+      archive.close();
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  describe('since a date and time', () => {
+    let directory: string;
+    let queryStub: SinonStub;
+    let changed: Array<Record<string, unknown>> = [];
+
+    const version = (Id: string, ContentDocumentId: string, VersionNumber: number, SystemModstamp: string) => ({
+      attributes: { type: 'ContentVersion' },
+      Id,
+      ContentDocumentId,
+      Title: `Title ${ContentDocumentId}`,
+      FileExtension: 'pdf',
+      VersionNumber: String(VersionNumber),
+      SystemModstamp,
+    });
+
+    beforeEach(() => {
+      [createReadStreamStub, writeStreamStub, writeFileSyncStub, appendFileSyncStub].forEach((stub) => stub.restore());
+      directory = fs.mkdtempSync(join(os.tmpdir(), 'fileops-export-since-'));
+      queryStub = $$.SANDBOX.stub(Connection.prototype, 'query').callsFake(((soql: string) => {
+        const records = soql.includes('ORDER BY SystemModstamp') ? changed : [];
+        return Promise.resolve({ done: true, totalSize: records.length, records } as unknown as QueryResult);
+      }) as unknown as Connection['query']);
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    const exportSince = (...flags: string[]) =>
+      FileExport.run([
+        ...flags,
+        '--output-dir',
+        directory,
+        '--error-file',
+        join(directory, 'errors.csv'),
+        '--max-retries',
+        '0',
+        '--target-org',
+        'mockOrg',
+      ]);
+    const state = () =>
+      JSON.parse(fs.readFileSync(join(directory, 'fileops-state.json'), 'utf8')) as {
+        since?: string;
+        documents: Record<string, string>;
+      };
+
+    it('should only export the versions modified since the previous run, replacing earlier versions', async () => {
+      axiosGetStub.callsFake((url: string) =>
+        url.includes('068B1') && axiosGetStub.callCount === 2
+          ? Promise.reject(new Error('Forbidden'))
+          : Promise.resolve({ data: Readable.from([Buffer.from('somedata')]), headers: {} })
+      );
+      changed = [
+        version('068A1', '069A', 1, '2024-05-01T10:00:00.000+0000'),
+        version('068B1', '069B', 1, '2024-05-01T11:00:00.000+0000'),
+      ];
+
+      const first = await exportSince('--since', 'last');
+
+      expect(
+        queryStub.calledWith(
+          'SELECT Id, ContentDocumentId, Title, FileExtension, VersionNumber, SystemModstamp FROM ContentVersion ' +
+            'WHERE IsLatest = true ORDER BY SystemModstamp'
+        )
+      ).to.be.true;
+      expect(first).to.include({ successCount: 1, failureCount: 1 });
+      expect(state()).to.deep.equal({ since: '2024-05-01T10:00:00Z', documents: { '069A': '068A1' } });
+
+      changed = [
+        version('068B1', '069B', 1, '2024-05-01T11:00:00.000+0000'),
+        version('068A2', '069A', 2, '2024-05-02T09:00:00.000+0000'),
+      ];
+      const second = await exportSince('--since', 'last');
+
+      expect(queryStub.lastCall.args[0]).to.include(
+        'WHERE IsLatest = true AND SystemModstamp > 2024-05-01T10:00:00Z ORDER BY SystemModstamp'
+      );
+      expect(second).to.include({ successCount: 2, failureCount: 0 });
+      expect(fs.readdirSync(directory).filter((name) => name.endsWith('.pdf'))).to.have.members([
+        '068A2.pdf',
+        '068B1.pdf',
+      ]);
+      expect(state()).to.deep.equal({
+        since: '2024-05-02T09:00:00Z',
+        documents: { '069A': '068A2', '069B': '068B1' },
+      });
+      const manifest = await ExportManifest.open(directory, true);
+      expect(manifest.get('068A1')?.status).to.equal('replaced');
+      expect(manifest.completedFileNames()).to.have.members(['068A2.pdf', '068B1.pdf']);
+    });
+
+    it('should keep the file of the previous version until the new version has been downloaded', async () => {
+      let content = 'version1';
+      axiosGetStub.callsFake(() =>
+        content === 'broken'
+          ? Promise.reject(new Error('Forbidden'))
+          : Promise.resolve({ data: Readable.from([Buffer.from(content)]), headers: {} })
+      );
+      const template = ['--filename-template', '{ContentDocumentId}.{ext}'];
+      changed = [version('068A1', '069A', 1, '2024-05-01T10:00:00.000+0000')];
+      await exportSince('--since', 'last', ...template);
+
+      content = 'broken';
+      changed = [version('068A2', '069A', 2, '2024-05-02T09:00:00.000+0000')];
+      const failed = await exportSince('--since', 'last', ...template);
+
+      expect(failed.failureCount).to.equal(1);
+      expect(fs.readFileSync(join(directory, '069A.pdf'), 'utf8')).to.equal('version1');
+      expect(fs.readFileSync(join(directory, 'errors.csv'), 'utf8')).to.include('068A2');
+      expect(state().documents).to.deep.equal({ '069A': '068A1' });
+
+      content = 'version2';
+      const replaced = await exportSince('--since', 'last', ...template);
+
+      expect(replaced.successCount).to.equal(1);
+      expect(fs.readdirSync(directory).filter((name) => name.startsWith('069A'))).to.deep.equal(['069A.pdf']);
+      expect(fs.readFileSync(join(directory, '069A.pdf'), 'utf8')).to.equal('version2');
+      const manifest = await ExportManifest.open(directory, true);
+      expect(manifest.get('068A1')?.status).to.equal('replaced');
+      expect(manifest.get('068A2')).to.include({ fileName: '069A.pdf', status: 'success' });
+    });
+
+    it('should keep every version in a folder per document', async () => {
+      changed = [
+        version('068A1', '069A', 1, '2024-05-01T10:00:00.000+0000'),
+        version('068A2', '069A', 2, '2024-05-02T09:00:00.000+0000'),
+      ];
+
+      const result = await exportSince('--since', '2024-01-01', '--keep-versions');
+
+      expect(queryStub.lastCall.args[0]).to.include(
+        'FROM ContentVersion WHERE SystemModstamp > 2024-01-01T00:00:00Z ORDER BY SystemModstamp'
+      );
+      expect(result.successCount).to.equal(2);
+      expect(fs.readdirSync(join(directory, '069A'))).to.have.members(['1.pdf', '2.pdf']);
+    });
+
+    it('should stop cleanly and keep the mark before the records not read when the budget runs out', async () => {
+      changed = [
+        version('068A1', '069A', 1, '2024-05-01T10:00:00.000+0000'),
+        version('068B1', '069B', 1, '2024-05-01T11:00:00.000+0000'),
+      ];
+      queryStub.callsFake((() =>
+        Promise.resolve({
+          done: false,
+          totalSize: 3,
+          nextRecordsUrl: '/services/data/v62.0/query/01g-2000',
+          records: changed,
+        } as unknown as QueryResult)) as unknown as Connection['query']);
+      $$.SANDBOX.stub(Connection.prototype, 'queryMore').rejects(
+        new ApiBudgetExhaustedError('the limit of 2 calls set with --max-api-calls was reached')
+      );
+
+      const result = await exportSince('--since', 'last');
+
+      expect(result).to.include({ successCount: 2, failureCount: 0 });
+      expect(sfCommandStubs.warn.calledWithMatch('and the records after them were not read')).to.be.true;
+      // the version read last may share its SystemModstamp with the ones not read
+      expect(state()).to.deep.equal({
+        since: '2024-05-01T10:00:00Z',
+        documents: { '069A': '068A1', '069B': '068B1' },
+      });
+    });
+
+    it('should reject a since value that is not a date and time', async () => {
+      try {
+        await exportSince('--since', 'yesterday');
+        expect.fail('expected an error');
+      } catch (error) {
+        expect((error as Error).message).to.include('or last, but received: yesterday');
+      }
+    });
+  });
 });
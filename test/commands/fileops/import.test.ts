@@ -1,5 +1,9 @@
-import fs, { Stats, PathLike } from 'node:fs';
+import crypto from 'node:crypto';
+import fs, { Dirent, Stats, PathLike } from 'node:fs';
+import os from 'node:os';
+import { join } from 'node:path';
 import { Readable } from 'node:stream';
+import { Connection } from '@salesforce/core';
 import { TestContext } from '@salesforce/core/testSetup';
 import { expect } from 'chai';
 import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
@@ -7,6 +11,10 @@ import { SinonStub } from 'sinon';
 import axios from 'axios';
 import FormData from 'form-data';
 import FileImport from '../../../src/commands/fileops/import.js';
+import { ApiBudgetExhaustedError } from '../../../src/shared/apiBudget.js';
+import { ZipWriter } from '../../../src/shared/zipArchive.js';
+
+type QueryResult = Awaited<ReturnType<Connection['query']>>;
 
 type AxiosResponse = {
   data: string;
@@ -20,11 +28,15 @@ describe('file import', () => {
   let createStreamStub: SinonStub;
   let axiosPostStub: SinonStub;
   let statStub: SinonStub;
+  let writeFileStub: SinonStub;
+  let appendFileStub: SinonStub;
   const csvContent = 'VersionData,Title,PathOnClient\n./Path1.pdf,Title 1,Path1.pdf\n./Path2.pdf,Title 2,Path2.pdf';
 
   beforeEach(() => {
     sfCommandStubs = stubSfCommandUx($$.SANDBOX);
     formDataAppendStub = $$.SANDBOX.stub(FormData.prototype, 'append');
+    writeFileStub = $$.SANDBOX.stub(fs.promises, 'writeFile').resolves();
+    appendFileStub = $$.SANDBOX.stub(fs.promises, 'appendFile').resolves();
 
     // this is needed for flag exists: true check to work with a mock file
     statStub = $$.SANDBOX.stub(fs.promises, 'stat').resolves({
@@ -72,4 +84,636 @@ describe('file import', () => {
     expect(formDataAppendStub.callCount, 'form data append should be called').to.be.greaterThan(0);
     expect(sfCommandStubs.log.calledWith('File import completed'), 'file import completed in logs').to.be.true;
   });
+
+  it('should upload the files of a source directory with the top-level folder as the lookup value', async () => {
+    statStub.callsFake((filePath: string) =>
+      Promise.resolve({
+        size: 100,
+        isFile: () => filePath !== './docs',
+        isDirectory: () => filePath === './docs',
+      } as Stats)
+    );
+    const dirent = (name: string, directory = false): Dirent =>
+      ({ name, isDirectory: () => directory, isFile: () => !directory } as Dirent);
+    const directories: Record<string, Dirent[]> = {
+      docs: [dirent('readme.txt'), dirent('ACME', true), dirent('notes.md')],
+      [join('docs', 'ACME')]: [dirent('scan.png'), dirent('contract.pdf')],
+    };
+    $$.SANDBOX.stub(fs.promises, 'readdir').callsFake(((dirPath: string) =>
+      Promise.resolve(directories[dirPath] ?? [])) as unknown as typeof fs.promises.readdir);
+    axiosPostStub.resolves({
+      data: [
+        { success: true, id: '068A', errors: [] },
+        { success: true, id: '068B', errors: [] },
+      ],
+      headers: {},
+    });
+
+    const result = await FileImport.run([
+      '--source-dir',
+      './docs',
+      '--recursive',
+      '--include',
+      '*.pdf',
+      '--include',
+      '*.txt',
+      '--folder-lookup',
+      'FirstPublishLocation:Account.External_Id__c',
+      '--target-org',
+      'mockOrg',
+    ]);
+
+    expect(result).to.include({ total: 2, success: 2 });
+    expect(result.results, 'per-row results should only be kept with --json').to.be.empty;
+    expect(
+      writeFileStub.getCalls().some((call) => String(call.args[0]).startsWith('results')),
+      'no results file should be written without --results-file'
+    ).to.be.false;
+    const collection = formDataAppendStub.getCalls().find((call) => call.args[0] === 'collection');
+    const { records } = JSON.parse(collection?.args[1] as string) as { records: Array<Record<string, unknown>> };
+    expect(
+      records.map(({ Title, PathOnClient, FirstPublishLocation }) => [Title, PathOnClient, FirstPublishLocation])
+    ).to.deep.equal([
+      // eslint-disable-next-line camelcase
+      ['contract', 'contract.pdf', { attributes: { type: 'Account' }, External_Id__c: 'ACME' }],
+      ['readme', 'readme.txt', undefined],
+    ]);
+  });
+
+  it('should upload new versions of documents found by the document key', async () => {
+    const versionsCsv =
+      'VersionData,Title,PathOnClient,Contract_Number__c,ReasonForChange\n' +
+      './v2.pdf,Contract,v2.pdf,C-1,Signed\n' +
+      './v3.pdf,Other,v3.pdf,C-404,Signed';
+    createStreamStub.callsFake(
+      () =>
+        new Readable({
+          read() {
+            this.push(Buffer.from(versionsCsv));
+            this.push(null);
+          },
+        }) as fs.ReadStream
+    );
+    const queryStub = $$.SANDBOX.stub(Connection.prototype, 'query').callsFake(((soql: string) => {
+      const records = soql.includes('IsLatest')
+        ? // eslint-disable-next-line camelcase
+          [{ ContentDocumentId: '069X', Contract_Number__c: 'C-1' }]
+        : [{ Id: '068NEW', ContentDocumentId: '069X', VersionNumber: '2' }];
+      return Promise.resolve({ done: true, totalSize: records.length, records } as unknown as QueryResult);
+    }) as unknown as Connection['query']);
+    axiosPostStub.resolves({ data: [{ success: true, id: '068NEW', errors: [] }], headers: {} });
+
+    const result = await FileImport.run([
+      '--file',
+      './versions.csv',
+      '--document-key',
+      'Contract_Number__c',
+      '--results-file',
+      'results-contracts.csv',
+      '--target-org',
+      'mockOrg',
+      '--json',
+    ]);
+
+    const documentQuery = queryStub.getCalls().find((call) => call.args[0].includes('IsLatest'));
+    expect(documentQuery?.args[0]).to.include("Contract_Number__c IN ('C-1','C-404')");
+    const collection = formDataAppendStub.getCalls().find((call) => call.args[0] === 'collection');
+    const { records } = JSON.parse(collection?.args[1] as string) as { records: Array<Record<string, string>> };
+    expect(records).to.have.lengthOf(1);
+    expect(records[0].ContentDocumentId).to.equal('069X');
+    expect(records[0].ReasonForChange).to.equal('Signed');
+    expect(result).to.include({ total: 2, success: 1 });
+    expect(result.results.map((row) => [row.success, row.id, row.contentDocumentId])).to.deep.equal([
+      [true, '068NEW', '069X'],
+      [false, undefined, undefined],
+    ]);
+
+    const resultsWrite = writeFileStub.getCalls().find((call) => (call.args[0] as string) === 'results-contracts.csv');
+    expect(resultsWrite?.args[1]).to.include('"./v2.pdf","Contract","v2.pdf","C-1","Signed","068NEW","069X","2"');
+    expect(resultsWrite?.args[1]).to.not.include('C-404');
+    const errorsWrite = writeFileStub.getCalls().find((call) => (call.args[0] as string).startsWith('errors'));
+    expect(errorsWrite?.args[1]).to.include('No existing document found with Contract_Number__c = C-404');
+  });
+
+  it('should upload files larger than the batch size individually', async () => {
+    const mixedCsv =
+      'VersionData,Title,PathOnClient\n./small.pdf,Small,small.pdf\n./big.pdf,Big,big.pdf\n./tiny.pdf,Tiny,tiny.pdf';
+    createStreamStub.callsFake(
+      () =>
+        new Readable({
+          read() {
+            this.push(Buffer.from(mixedCsv));
+            this.push(null);
+          },
+        }) as fs.ReadStream
+    );
+    statStub.callsFake((filePath: string) =>
+      Promise.resolve({ size: filePath === './big.pdf' ? 500 * 1024 * 1024 : 100, isFile: () => true } as Stats)
+    );
+    axiosPostStub.callsFake((url: string) =>
+      Promise.resolve({
+        data: url.endsWith('/sobjects/ContentVersion')
+          ? { success: true, id: '068BIG', errors: [] }
+          : [
+              { success: true, id: '068SMALL', errors: [] },
+              { success: true, id: '068TINY', errors: [] },
+            ],
+        headers: {},
+      })
+    );
+
+    const result = await FileImport.run(['--file', './mixed.csv', '--batch-size', '1', '--target-org', 'mockOrg']);
+
+    expect(result).to.include({ total: 3, success: 3 });
+    const urls = axiosPostStub.getCalls().map((call) => call.args[0] as string);
+    expect(urls.filter((url) => url.endsWith('/composite/sobjects'))).to.have.lengthOf(1);
+    expect(urls.filter((url) => url.endsWith('/sobjects/ContentVersion'))).to.have.lengthOf(1);
+    const entityContent = formDataAppendStub.getCalls().find((call) => call.args[0] === 'entity_content');
+    expect(JSON.parse(entityContent?.args[1] as string)).to.include({ Title: 'Big', PathOnClient: 'big.pdf' });
+    expect(sfCommandStubs.log.calledWith('1 file(s) larger than the batch size were uploaded individually')).to.be.true;
+  });
+
+  it('should send the content type of the ContentType column or recognised from the file', async () => {
+    const files: Record<string, string> = {
+      './types.csv':
+        'VersionData,Title,PathOnClient,ContentType\n./scan,Scan,scan,\n./memo.docx,Memo,memo.docx,text/x-memo',
+      './scan': '%PDF-1.7',
+      './memo.docx': 'memo',
+    };
+    createStreamStub.callsFake((filePath: string) => Readable.from([Buffer.from(files[filePath])]) as fs.ReadStream);
+
+    axiosPostStub.resolves({
+      data: [
+        { success: true, id: '068A', errors: [] },
+        { success: true, id: '068B', errors: [] },
+      ],
+      headers: {},
+    });
+
+    const result = await FileImport.run(['--file', './types.csv', '--target-org', 'mockOrg']);
+
+    expect(result).to.include({ total: 2, success: 2 });
+    const contentTypes = formDataAppendStub
+      .getCalls()
+      .filter((call) => call.args[0] !== 'collection')
+      .map((call) => (call.args[2] as { filename: string; contentType: string }).contentType);
+    expect(contentTypes).to.deep.equal(['application/pdf', 'text/x-memo']);
+    const collection = formDataAppendStub.getCalls().find((call) => call.args[0] === 'collection');
+    const { records } = JSON.parse(collection?.args[1] as string) as { records: Array<Record<string, string>> };
+    expect(records[1]).to.not.have.property('ContentType');
+  });
+
+  it('should link uploaded files to the records in link columns and the links file', async () => {
+    const files: Record<string, string> = {
+      './files.csv': 'VersionData,Title,PathOnClient,Link:Account.External_Id__c\n./a.pdf,A,a.pdf,ACC-1;ACC-404',
+      './links.csv': 'VersionData,LinkedEntityId,ShareType\n./a.pdf,003XX,C',
+    };
+    createStreamStub.callsFake(
+      (filePath: string) =>
+        new Readable({
+          read() {
+            this.push(Buffer.from(files[filePath] ?? 'data'));
+            this.push(null);
+          },
+        }) as fs.ReadStream
+    );
+    const queryStub = $$.SANDBOX.stub(Connection.prototype, 'query').callsFake(((soql: string) => {
+      const records = soql.includes('FROM Account')
+        ? // eslint-disable-next-line camelcase
+          [{ Id: '001A', External_Id__c: 'ACC-1' }]
+        : [{ Id: '068A', ContentDocumentId: '069A', VersionNumber: '1' }];
+      return Promise.resolve({ done: true, totalSize: records.length, records } as unknown as QueryResult);
+    }) as unknown as Connection['query']);
+    axiosPostStub.callsFake((url: string, body: unknown) =>
+      Promise.resolve({
+        data:
+          body instanceof FormData
+            ? [{ success: true, id: '068A', errors: [] }]
+            : [
+                { success: true, id: '06AA', errors: [] },
+                {
+                  success: false,
+                  id: '',
+                  errors: [{ message: 'Duplicate', statusCode: 'DUPLICATE_VALUE', fields: [] }],
+                },
+              ],
+        headers: {},
+      })
+    );
+
+    const result = await FileImport.run([
+      '--file',
+      './files.csv',
+      '--links-file',
+      './links.csv',
+      '--target-org',
+      'mockOrg',
+    ]);
+
+    expect(result).to.include({ total: 1, success: 1 });
+    expect(queryStub.getCalls().some((call) => call.args[0].includes("External_Id__c IN ('ACC-1','ACC-404')"))).to.be
+      .true;
+    const linkPost = axiosPostStub.getCalls().find((call) => !(call.args[1] instanceof FormData));
+    const { records } = linkPost?.args[1] as { records: Array<Record<string, unknown>> };
+    expect(records).to.deep.equal([
+      {
+        attributes: { type: 'ContentDocumentLink' },
+        ContentDocumentId: '069A',
+        LinkedEntityId: '001A',
+        ShareType: 'V',
+        Visibility: 'AllUsers',
+      },
+      {
+        attributes: { type: 'ContentDocumentLink' },
+        ContentDocumentId: '069A',
+        LinkedEntityId: '003XX',
+        ShareType: 'C',
+        Visibility: 'AllUsers',
+      },
+    ]);
+    const collection = formDataAppendStub.getCalls().find((call) => call.args[0] === 'collection');
+    expect(collection?.args[1]).to.not.include('Link:');
+    const linkErrors = writeFileStub.getCalls().find((call) => (call.args[0] as string).startsWith('linkErrors'));
+    expect(linkErrors?.args[1]).to.include('No Account found with External_Id__c = ACC-404');
+    expect(linkErrors?.args[1]).to.include('"003XX","Duplicate","DUPLICATE_VALUE"');
+    expect(sfCommandStubs.log.calledWith('Links created: 1, Link failures: 2')).to.be.true;
+  });
+
+  it('should skip files already published to the same record', async () => {
+    const files: Record<string, string> = {
+      './files.csv':
+        'VersionData,Title,PathOnClient,FirstPublishLocation:Account.External_Id__c\n' +
+        './a.pdf,A,a.pdf,ACC-1\n./b.pdf,B,b.pdf,ACC-2\n./c.pdf,C,c.pdf,',
+      './a.pdf': 'same content',
+      './b.pdf': 'same content',
+      './c.pdf': 'other content',
+    };
+    createStreamStub.callsFake((filePath: string) => Readable.from([Buffer.from(files[filePath])]) as fs.ReadStream);
+    const checksum = crypto.createHash('md5').update('same content').digest('hex');
+    const queryStub = $$.SANDBOX.stub(Connection.prototype, 'query').callsFake(((soql: string) => {
+      const records = soql.includes('Checksum IN')
+        ? [
+            {
+              Id: '068OLD',
+              ContentDocumentId: '069OLD',
+              VersionNumber: '1',
+              Checksum: checksum,
+              FirstPublishLocationId: '001A',
+              // eslint-disable-next-line camelcase
+              FirstPublishLocation: { attributes: { type: 'Account' }, External_Id__c: 'ACC-1' },
+            },
+          ]
+        : [];
+      return Promise.resolve({ done: true, totalSize: records.length, records } as unknown as QueryResult);
+    }) as unknown as Connection['query']);
+    axiosPostStub.resolves({
+      data: [
+        { success: true, id: '068B', errors: [] },
+        { success: true, id: '068C', errors: [] },
+      ],
+      headers: {},
+    });
+
+    const result = await FileImport.run([
+      '--file',
+      './files.csv',
+      '--skip-duplicates',
+      '--duplicate-scope',
+      'parent',
+      '--target-org',
+      'mockOrg',
+      '--json',
+    ]);
+
+    expect(result).to.include({ total: 3, success: 2, skipped: 1 });
+    expect(result.results[0]).to.include({ skipped: true, id: '068OLD', contentDocumentId: '069OLD' });
+    const checksumQuery = queryStub.getCalls().find((call) => call.args[0].includes('Checksum IN'));
+    expect(checksumQuery?.args[0]).to.include('TYPEOF FirstPublishLocation WHEN Account THEN External_Id__c END');
+    const collection = formDataAppendStub.getCalls().find((call) => call.args[0] === 'collection');
+    const { records } = JSON.parse(collection?.args[1] as string) as { records: Array<Record<string, string>> };
+    expect(records.map((record) => record.Title)).to.deep.equal(['B', 'C']);
+    expect(sfCommandStubs.log.calledWith('Skipped 1 file(s) already in the org')).to.be.true;
+  });
+
+  it('should report the files whose checksum could not be computed and upload the others', async () => {
+    const files: Record<string, string> = {
+      './files.csv': 'VersionData,Title,PathOnClient\n./a.pdf,A,a.pdf\n./b.pdf,B,b.pdf',
+      './a.pdf': 'a content',
+    };
+    createStreamStub.callsFake((filePath: string) =>
+      filePath in files
+        ? (Readable.from([Buffer.from(files[filePath])]) as fs.ReadStream)
+        : (new Readable({
+            read() {
+              this.destroy(Object.assign(new Error('EACCES: permission denied'), { code: 'EACCES' }));
+            },
+          }) as fs.ReadStream)
+    );
+    $$.SANDBOX.stub(Connection.prototype, 'query').resolves({ done: true, totalSize: 0, records: [] } as QueryResult);
+    axiosPostStub.resolves({ data: [{ success: true, id: '068A', errors: [] }], headers: {} });
+
+    const result = await FileImport.run([
+      '--file',
+      './files.csv',
+      '--skip-duplicates',
+      '--target-org',
+      'mockOrg',
+      '--json',
+    ]);
+
+    expect(result).to.include({ total: 2, success: 1, skipped: 0 });
+    expect(result.results.find((row) => row.title === 'B')?.error).to.equal(
+      'Error processing file ./b.pdf: EACCES: permission denied'
+    );
+  });
+
+  it('should send again only the files that failed with a transient error', async () => {
+    $$.SANDBOX.stub(Math, 'random').returns(0);
+    axiosPostStub.onFirstCall().resolves({
+      data: [
+        { success: true, id: '068A', errors: [] },
+        { success: false, id: '', errors: [{ message: 'Locked', statusCode: 'UNABLE_TO_LOCK_ROW', fields: [] }] },
+      ],
+      headers: {},
+    });
+    axiosPostStub.onSecondCall().resolves({ data: [{ success: true, id: '068B', errors: [] }], headers: {} });
+
+    const result = await FileImport.run(['--file', './mockFile.csv', '--target-org', 'mockOrg']);
+
+    expect(result).to.include({ total: 2, success: 2 });
+    expect(axiosPostStub.callCount).to.equal(2);
+    const collections = formDataAppendStub
+      .getCalls()
+      .filter((call) => call.args[0] === 'collection')
+      .map((call) => (JSON.parse(call.args[1] as string) as { records: Array<Record<string, string>> }).records);
+    expect(collections.map((records) => records.map((record) => record.Title))).to.deep.equal([
+      ['Title 1', 'Title 2'],
+      ['Title 2'],
+    ]);
+  });
+
+  it('should report unreadable files and append the results of each batch as it completes', async () => {
+    statStub.callsFake((filePath: string) =>
+      filePath === './Path1.pdf'
+        ? Promise.reject(new Error('EACCES: permission denied'))
+        : Promise.resolve({ size: 2 * 1024 * 1024, isFile: () => true } as Stats)
+    );
+    createStreamStub.callsFake(
+      () =>
+        new Readable({
+          read() {
+            this.push(Buffer.from(csvContent + '\n./Path3.pdf,Title 3,Path3.pdf'));
+            this.push(null);
+          },
+        }) as fs.ReadStream
+    );
+    axiosPostStub.callsFake(() => Promise.resolve({ data: { success: true, id: '068A', errors: [] }, headers: {} }));
+
+    const result = await FileImport.run([
+      '--file',
+      './mockFile.csv',
+      '--batch-size',
+      '1',
+      '--concurrency',
+      '1',
+      '--results-file',
+      'results.csv',
+      '--target-org',
+      'mockOrg',
+      '--json',
+    ]);
+
+    expect(result).to.include({ total: 3, success: 2 });
+    expect(result.results.map((row) => row.success)).to.deep.equal([false, true, true]);
+    expect(result.results[0].error).to.equal('Error processing file ./Path1.pdf: EACCES: permission denied');
+    const resultsWrite = writeFileStub.getCalls().find((call) => call.args[0] === 'results.csv');
+    expect(resultsWrite?.args[1]).to.match(/^"VersionData".*\n"\.\/Path2\.pdf"/);
+    expect(appendFileStub.calledOnceWith('results.csv', '\n"./Path3.pdf","Title 3","Path3.pdf","068A",,')).to.be.true;
+  });
+
+  it('should record the attempts made for files that could not be uploaded', async () => {
+    $$.SANDBOX.stub(Math, 'random').returns(0);
+    axiosPostStub.rejects(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET', isAxiosError: true }));
+
+    const result = await FileImport.run([
+      '--file',
+      './mockFile.csv',
+      '--max-retries',
+      '2',
+      '--target-org',
+      'mockOrg',
+      '--json',
+    ]);
+
+    expect(result).to.include({ total: 2, success: 0 });
+    expect(axiosPostStub.callCount).to.equal(3);
+    expect(result.results.map((row) => row.attempts)).to.deep.equal([3, 3]);
+    const errorsWrite = writeFileStub.getCalls().find((call) => (call.args[0] as string).startsWith('errors'));
+    expect(errorsWrite?.args[1]).to.include('"socket hang up"');
+  });
+
+  it('should retry the rows of an error file and write the rows that fail again with their columns', async () => {
+    const errorsCsv =
+      'VersionData,Title,PathOnClient,Description,Error,ErrorStatusText,ErrorFields,Attempts\n' +
+      './a.pdf,A,a.pdf,Signed copy,socket hang up,,,3';
+    createStreamStub.callsFake(() => Readable.from([Buffer.from(errorsCsv)]) as fs.ReadStream);
+    axiosPostStub.resolves({
+      data: [{ success: false, id: '', errors: [{ message: 'Bad value', statusCode: 'INVALID_FIELD', fields: [] }] }],
+      headers: {},
+    });
+
+    const result = await FileImport.run([
+      '--file',
+      './errors.csv',
+      '--error-file',
+      'retry-errors.csv',
+      '--target-org',
+      'mockOrg',
+    ]);
+
+    expect(result).to.include({ total: 1, success: 0 });
+    const collection = formDataAppendStub.getCalls().find((call) => call.args[0] === 'collection');
+    const { records } = JSON.parse(collection?.args[1] as string) as { records: Array<Record<string, string>> };
+    expect(Object.keys(records[0])).to.deep.equal(['attributes', 'Title', 'PathOnClient', 'Description']);
+    const errorsWrite = writeFileStub.getCalls().find((call) => call.args[0] === 'retry-errors.csv');
+    const [header, row] = String(errorsWrite?.args[1]).split('\n');
+    expect(header).to.equal(
+      '"VersionData","Title","PathOnClient","Description","Error","ErrorStatusText","ErrorFields","Attempts"'
+    );
+    expect(row).to.match(/^"\.\/a\.pdf","A","a\.pdf","Signed copy",".*Bad value.*",.*,1$/);
+  });
+
+  it('should upload with auto concurrency', async () => {
+    axiosPostStub.resolves({
+      data: [
+        { success: true, id: '068A', errors: [] },
+        { success: true, id: '068B', errors: [] },
+      ],
+      headers: {},
+    });
+    const result = await FileImport.run([
+      '--file',
+      './mockFile.csv',
+      '--concurrency',
+      'auto',
+      '--target-org',
+      'mockOrg',
+    ]);
+
+    expect(result).to.include({ total: 2, success: 2 });
+  });
+
+  it('should report the files not uploaded once the api call budget is used', async () => {
+    statStub.resolves({ size: 2 * 1024 * 1024, isFile: () => true } as Stats);
+    axiosPostStub.resolves({ data: { success: true, id: '068A', errors: [] }, headers: {} });
+
+    const result = await FileImport.run([
+      '--file',
+      './mockFile.csv',
+      '--batch-size',
+      '1',
+      '--concurrency',
+      '1',
+      // the request refreshAuth sends to check the access token counts as well
+      '--max-api-calls',
+      '2',
+      '--target-org',
+      'mockOrg',
+      '--json',
+    ]);
+
+    expect(result).to.include({ total: 2, success: 1 });
+    expect(axiosPostStub.callCount).to.equal(1);
+    expect(result.results[1].error).to.equal(
+      'Not attempted, all of the 2 API calls allowed by --max-api-calls were made'
+    );
+  });
+
+  it('should report the files not checked for duplicates once the api call budget is used', async () => {
+    $$.SANDBOX.stub(Connection.prototype, 'query').rejects(
+      new ApiBudgetExhaustedError('all of the 1 API calls allowed by --max-api-calls were made')
+    );
+
+    const result = await FileImport.run([
+      '--file',
+      './mockFile.csv',
+      '--skip-duplicates',
+      // the request refreshAuth sends to check the access token uses up the budget
+      '--max-api-calls',
+      '1',
+      '--target-org',
+      'mockOrg',
+      '--json',
+    ]);
+
+    expect(result).to.include({ total: 2, success: 0, skipped: 0 });
+    expect(axiosPostStub.called).to.be.false;
+    expect(result.results.map((row) => row.error)).to.deep.equal([
+      'Not attempted, all of the 1 API calls allowed by --max-api-calls were made',
+      'Not attempted, all of the 1 API calls allowed by --max-api-calls were made',
+    ]);
+  });
+
+  it('should append the failed rows of each batch to the error file as it completes', async () => {
+    statStub.resolves({ size: 2 * 1024 * 1024, isFile: () => true } as Stats);
+    createStreamStub.callsFake(() => Readable.from([Buffer.from(csvContent + '\n./Path3.pdf,Title 3,Path3.pdf')]));
+    axiosPostStub.resolves({ data: { success: true, id: '068A', errors: [] }, headers: {} });
+
+    await FileImport.run([
+      '--file',
+      './mockFile.csv',
+      '--batch-size',
+      '1',
+      '--concurrency',
+      '1',
+      // the request refreshAuth sends to check the access token counts as well
+      '--max-api-calls',
+      '2',
+      '--error-file',
+      'not-uploaded.csv',
+      '--target-org',
+      'mockOrg',
+    ]);
+
+    const errorsWrite = writeFileStub.getCalls().find((call) => call.args[0] === 'not-uploaded.csv');
+    expect(errorsWrite?.args[1]).to.match(/^"VersionData".*\n"\.\/Path2\.pdf"/);
+    expect(errorsWrite?.args[1]).to.not.include('Path3');
+    const errorsAppend = appendFileStub.getCalls().find((call) => call.args[0] === 'not-uploaded.csv');
+    expect(errorsAppend?.args[1]).to.match(/^\n"\.\/Path3\.pdf","Title 3","Path3\.pdf","Not attempted/);
+  });
+
+  it('should validate the csv and plan the batches without uploading on a dry run', async () => {
+    const csv = 'VersionData,Title,PathOnClient,Unknown__c\n./a.pdf,A,a.pdf,x\n./missing.pdf,,missing.pdf,y';
+    createStreamStub.callsFake(
+      () =>
+        new Readable({
+          read() {
+            this.push(Buffer.from(csv));
+            this.push(null);
+          },
+        }) as fs.ReadStream
+    );
+    statStub.callsFake((filePath: string) =>
+      filePath === './missing.pdf'
+        ? Promise.reject(Object.assign(new Error('ENOENT: no such file'), { code: 'ENOENT' }))
+        : Promise.resolve({ size: 100, isFile: () => true } as Stats)
+    );
+    $$.SANDBOX.stub(Object.getPrototypeOf(Connection.prototype) as Connection, 'describe').resolves({
+      fields: [
+        { name: 'Title', type: 'string', length: 255, createable: true },
+        { name: 'PathOnClient', type: 'string', length: 500, createable: true },
+      ],
+    } as unknown as Awaited<ReturnType<Connection['describe']>>);
+
+    const result = await FileImport.run(['--file', './mockFile.csv', '--dry-run', '--target-org', 'mockOrg']);
+
+    expect(axiosPostStub.called).to.be.false;
+    expect(writeFileStub.called).to.be.false;
+    expect(result).to.include({ total: 2, success: 0 });
+    expect(result.plan).to.deep.include({ batches: 1, individualUploads: 0, totalBytes: 100 });
+    expect(result.plan?.batchPlan).to.deep.equal([{ files: 1, bytes: 100, single: false }]);
+    expect(result.plan?.problems.map((p) => [p.line, p.column, p.problem])).to.deep.equal([
+      [undefined, 'Unknown__c', 'Unknown ContentVersion field Unknown__c'],
+      [3, 'Title', 'Title is empty'],
+      [3, 'VersionData', 'File not found'],
+    ]);
+  });
+
+  it('should upload the files of a zip archive with the csv in its root folder', async () => {
+    [createStreamStub, statStub].forEach((stub) => stub.restore());
+    const directory = fs.mkdtempSync(join(os.tmpdir(), 'fileops-import-test-'));
+    const archivePath = join(directory, 'files.zip');
+    const archive = ZipWriter.create(archivePath);
+    await archive.addData('errors.csv', 'id,message\n1,failed');
+    await archive.addData(
+      'files.csv',
+      'VersionData,Title,PathOnClient\n./docs/a.pdf,A,a.pdf\ndocs/missing.pdf,B,b.pdf\ndocs/empty.txt,C,empty.txt'
+    );
+    await archive.addData('docs/a.pdf', 'pdf data');
+    await archive.addData('docs/empty.txt', '');
+    await archive.close();
+    axiosPostStub.resolves({
+      data: [
+        { success: true, id: '068A', errors: [] },
+        { success: true, id: '068C', errors: [] },
+      ],
+      headers: {},
+    });
+
+    try {
+      const result = await FileImport.run(['--file', archivePath, '--target-org', 'mockOrg', '--json']);
+
+      expect(result).to.include({ total: 3, success: 2 });
+      expect(result.results.find((row) => row.title === 'C')).to.include({ success: true, id: '068C' });
+      expect(result.results.find((row) => row.title === 'B')?.error).to.equal(
+        'Error processing file docs/missing.pdf: docs/missing.pdf is not in the archive'
+      );
+      const part = formDataAppendStub
+        .getCalls()
+        .find((call) => (call.args[2] as { filename?: string } | undefined)?.filename === 'a.pdf');
+      expect(part?.args[2]).to.include({ knownLength: 'pdf data'.length });
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
 });
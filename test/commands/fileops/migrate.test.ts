@@ -0,0 +1,215 @@
+import fs from 'node:fs';
+import { Readable } from 'node:stream';
+import { Connection } from '@salesforce/core';
+import { MockTestOrgData, TestContext } from '@salesforce/core/testSetup';
+import { expect } from 'chai';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import { SinonStub } from 'sinon';
+import axios from 'axios';
+import FormData from 'form-data';
+import FileMigrate from '../../../src/commands/fileops/migrate.js';
+
+type QueryResult = Awaited<ReturnType<Connection['query']>>;
+
+describe('file migrate', () => {
+  const $$ = new TestContext();
+  const sourceOrg = new MockTestOrgData();
+  const targetOrg = new MockTestOrgData();
+  let sfCommandStubs: ReturnType<typeof stubSfCommandUx>;
+  let formDataAppendStub: SinonStub;
+  let axiosPostStub: SinonStub;
+  let queryStub: SinonStub;
+  let writeFileStub: SinonStub;
+
+  const sourceVersion = (id: string, parentId: string | null) => ({
+    attributes: { type: 'ContentVersion', url: `/sobjects/ContentVersion/${id}` },
+    Id: id,
+    ContentDocumentId: `069${id}`,
+    Title: `Title ${id}`,
+    PathOnClient: `${id}.pdf`,
+    ContentSize: 100,
+    FirstPublishLocationId: parentId,
+  });
+
+  beforeEach(async () => {
+    await $$.stubAuths(sourceOrg, targetOrg);
+    sfCommandStubs = stubSfCommandUx($$.SANDBOX);
+    formDataAppendStub = $$.SANDBOX.stub(FormData.prototype, 'append');
+    writeFileStub = $$.SANDBOX.stub(fs.promises, 'writeFile').resolves();
+    // jsforce wraps describe in a cache when the connection is created, so stub the method it wraps
+    $$.SANDBOX.stub(Object.getPrototypeOf(Connection.prototype) as Connection, 'describe').resolves({
+      keyPrefix: '001',
+    } as Awaited<ReturnType<Connection['describe']>>);
+
+    queryStub = $$.SANDBOX.stub(Connection.prototype, 'query').callsFake(((soql: string) => {
+      let records: Array<Record<string, unknown>> = [];
+      if (soql.includes('FROM ContentVersion WHERE IsLatest')) {
+        records = [sourceVersion('A', '001X'), sourceVersion('B', '003Y')];
+      } else if (soql.includes('FROM Account')) {
+        // eslint-disable-next-line camelcase
+        records = [{ attributes: { type: 'Account', url: '' }, Id: '001X', External_Id__c: 'ACME' }];
+      } else if (soql.includes('FROM ContentVersion WHERE Id IN')) {
+        records = [{ attributes: { type: 'ContentVersion', url: '' }, Id: 'NEW1', ContentDocumentId: 'NEWDOC1' }];
+      }
+      return Promise.resolve({ done: true, totalSize: records.length, records } as QueryResult);
+    }) as unknown as Connection['query']);
+
+    $$.SANDBOX.stub(axios, 'get').resolves({ data: Readable.from(['somedata']), headers: {} });
+    axiosPostStub = $$.SANDBOX.stub(axios, 'post').resolves({
+      data: [
+        { success: true, id: 'NEW1', errors: [] },
+        { success: false, id: '', errors: [{ message: 'bad', statusCode: 'INVALID_FIELD', fields: ['Title'] }] },
+      ],
+      headers: {},
+    });
+  });
+
+  afterEach(() => {
+    $$.restore();
+  });
+
+  it('should upload source files to the target org and write the id mapping', async () => {
+    const result = await FileMigrate.run([
+      '--source-org',
+      sourceOrg.username,
+      '--target-org',
+      targetOrg.username,
+      '--where',
+      'IsLatest = true',
+      '--parent-external-id',
+      'Account.External_Id__c',
+      '--mapping-file',
+      'mapping.csv',
+    ]);
+
+    expect(result).to.deep.equal({ total: 2, success: 1 });
+    expect(axiosPostStub.calledOnce).to.be.true;
+    expect(axiosPostStub.firstCall.args[0]).to.include('/composite/sobjects');
+
+    const collection = formDataAppendStub.getCalls().find((call) => call.args[0] === 'collection');
+    const { records } = JSON.parse(collection?.args[1] as string) as { records: Array<Record<string, unknown>> };
+    expect(records[0].FirstPublishLocation).to.deep.equal({
+      attributes: { type: 'Account' },
+      // eslint-disable-next-line camelcase
+      External_Id__c: 'ACME',
+    });
+    expect(records[1].FirstPublishLocation, 'unmapped parents should be left out').to.be.undefined;
+
+    const mappingWrite = writeFileStub.getCalls().find((call) => call.args[0] === 'mapping.csv');
+    expect(mappingWrite?.args[1]).to.include('"A","069A","NEW1","NEWDOC1"');
+    expect(sfCommandStubs.log.calledWith('File migration completed')).to.be.true;
+    expect(queryStub.called).to.be.true;
+  });
+
+  it('should page through the source versions, migrate large files on their own and retry transient failures of both', async () => {
+    $$.SANDBOX.stub(Math, 'random').returns(0);
+    const appendFileStub = $$.SANDBOX.stub(fs.promises, 'appendFile').resolves();
+    queryStub.callsFake(((soql: string) =>
+      Promise.resolve(
+        (soql.includes('WHERE IsLatest')
+          ? { done: false, totalSize: 2, nextRecordsUrl: '/query/01g-2000', records: [sourceVersion('A', null)] }
+          : { done: true, totalSize: 0, records: [] }) as QueryResult
+      )) as unknown as Connection['query']);
+    const queryMoreStub = $$.SANDBOX.stub(Connection.prototype, 'queryMore');
+    queryMoreStub.onFirstCall().rejects(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }));
+    queryMoreStub.resolves({
+      done: true,
+      totalSize: 2,
+      records: [{ ...sourceVersion('B', null), ContentSize: 2 * 1024 * 1024 }],
+    } as QueryResult);
+    let compositeCalls = 0;
+    axiosPostStub.callsFake((url: string) => {
+      if (url.endsWith('/sobjects/ContentVersion')) {
+        return Promise.resolve({ data: { success: true, id: 'NEW2', errors: [] }, headers: {} });
+      }
+      compositeCalls++;
+      return Promise.resolve({
+        data: [
+          compositeCalls === 1
+            ? { success: false, id: '', errors: [{ message: 'Locked', statusCode: 'UNABLE_TO_LOCK_ROW', fields: [] }] }
+            : { success: true, id: 'NEW1', errors: [] },
+        ],
+        headers: {},
+      });
+    });
+
+    const result = await FileMigrate.run([
+      '--source-org',
+      sourceOrg.username,
+      '--target-org',
+      targetOrg.username,
+      '--where',
+      'IsLatest = true',
+      '--batch-size',
+      '1',
+      '--mapping-file',
+      'mapping.csv',
+    ]);
+
+    expect(result).to.deep.equal({ total: 2, success: 2 });
+    expect(queryMoreStub.alwaysCalledWith('/query/01g-2000')).to.be.true;
+    expect(queryMoreStub.calledTwice).to.be.true;
+    const urls = axiosPostStub
+      .getCalls()
+      .map((call) => (call.args[0] as string).replace(/.*\/services\/data\/v[\d.]+/, ''));
+    expect(urls).to.have.members(['/sobjects/ContentVersion', '/composite/sobjects', '/composite/sobjects']);
+    expect(sfCommandStubs.log.calledWith('1 file(s) larger than the batch size were uploaded individually')).to.be.true;
+    const mappingWrites = [
+      ...writeFileStub.getCalls().filter((call) => call.args[0] === 'mapping.csv'),
+      ...appendFileStub.getCalls().filter((call) => call.args[0] === 'mapping.csv'),
+    ];
+    expect(mappingWrites).to.have.lengthOf(2);
+  });
+
+  it('should write the id mappings of the files migrated before the source versions could not be read', async () => {
+    queryStub.callsFake(((soql: string) =>
+      Promise.resolve(
+        (soql.includes('WHERE IsLatest')
+          ? {
+              done: false,
+              totalSize: 2,
+              nextRecordsUrl: '/query/01g-2000',
+              records: [{ ...sourceVersion('A', null), ContentSize: 2 * 1024 * 1024 }],
+            }
+          : { done: true, totalSize: 0, records: [] }) as QueryResult
+      )) as unknown as Connection['query']);
+    $$.SANDBOX.stub(Connection.prototype, 'queryMore').rejects(new Error('INVALID_QUERY_LOCATOR'));
+    axiosPostStub.resolves({ data: { success: true, id: 'NEW1', errors: [] }, headers: {} });
+
+    try {
+      await FileMigrate.run([
+        '--source-org',
+        sourceOrg.username,
+        '--target-org',
+        targetOrg.username,
+        '--where',
+        'IsLatest = true',
+        '--batch-size',
+        '1',
+        '--mapping-file',
+        'mapping.csv',
+      ]);
+      expect.fail('expected the command to fail');
+    } catch (error) {
+      expect((error as Error).message).to.equal('INVALID_QUERY_LOCATOR');
+    }
+    const mappingWrite = writeFileStub.getCalls().find((call) => call.args[0] === 'mapping.csv');
+    expect(mappingWrite?.args[1]).to.include('"A","069A","NEW1"');
+  });
+
+  it('should refuse to migrate files to the same org', async () => {
+    try {
+      await FileMigrate.run([
+        '--source-org',
+        targetOrg.username,
+        '--target-org',
+        targetOrg.username,
+        '--where',
+        'IsLatest = true',
+      ]);
+      expect.fail('expected the command to fail');
+    } catch (error) {
+      expect((error as Error).message).to.include('must be different');
+    }
+  });
+});
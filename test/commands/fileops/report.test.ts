@@ -0,0 +1,117 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Connection } from '@salesforce/core';
+import { TestContext } from '@salesforce/core/testSetup';
+import { expect } from 'chai';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import { SinonStub } from 'sinon';
+import FileReport from '../../../src/commands/fileops/report.js';
+
+type QueryResult = Awaited<ReturnType<Connection['query']>>;
+
+describe('file report', () => {
+  const $$ = new TestContext();
+  let sfCommandStubs: ReturnType<typeof stubSfCommandUx>;
+  let queryStub: SinonStub;
+  let queryMoreStub: SinonStub;
+  let outputDir: string;
+
+  const version = (Id: string, ContentDocumentId: string, ContentSize: number, CreatedDate: string) => ({
+    attributes: { type: 'ContentVersion' },
+    Id,
+    ContentDocumentId,
+    Title: `Title ${Id}`,
+    FileExtension: 'pdf',
+    FileType: 'PDF',
+    ContentSize,
+    CreatedDate,
+    Owner: { attributes: { type: 'User' }, Name: 'Admin User' },
+  });
+
+  beforeEach(() => {
+    sfCommandStubs = stubSfCommandUx($$.SANDBOX);
+    outputDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'fileops-report-')), 'report');
+    queryStub = $$.SANDBOX.stub(Connection.prototype, 'query').callsFake(((soql: string) => {
+      if (soql.includes('FROM ContentDocumentLink')) {
+        const records = [
+          { ContentDocumentId: '069A', LinkedEntity: { Type: 'User' } },
+          { ContentDocumentId: '069A', LinkedEntity: { Type: 'Account' } },
+          { ContentDocumentId: '069B', LinkedEntity: { Type: 'User' } },
+        ];
+        return Promise.resolve({ done: true, totalSize: records.length, records } as unknown as QueryResult);
+      }
+      return Promise.resolve({
+        done: false,
+        totalSize: 3,
+        nextRecordsUrl: '/services/data/v62.0/query/01g-2000',
+        records: [
+          version('068A1', '069A', 100, '2022-01-10T10:00:00.000+0000'),
+          version('068A2', '069A', 150, '2024-02-10T10:00:00.000+0000'),
+        ],
+      } as unknown as QueryResult);
+    }) as unknown as Connection['query']);
+    queryMoreStub = $$.SANDBOX.stub(Connection.prototype, 'queryMore').resolves({
+      done: true,
+      totalSize: 3,
+      records: [{ ...version('068B1', '069B', 30, '2024-03-10T10:00:00.000+0000'), FileType: 'PNG', Owner: null }],
+    } as unknown as QueryResult);
+  });
+
+  afterEach(() => {
+    $$.restore();
+    fs.rmSync(path.dirname(outputDir), { recursive: true, force: true });
+  });
+
+  it('should report the storage used by every version of the files', async () => {
+    const result = await FileReport.run(['--where', 'CreatedDate > 2020-01-01T00:00:00Z', '--target-org', 'mockOrg']);
+
+    expect(
+      queryStub.calledWith(
+        'SELECT Id, ContentDocumentId, Title, FileExtension, FileType, ContentSize, CreatedDate, Owner.Name ' +
+          'FROM ContentVersion WHERE CreatedDate > 2020-01-01T00:00:00Z'
+      )
+    ).to.be.true;
+    expect(queryMoreStub.calledOnceWith('/services/data/v62.0/query/01g-2000')).to.be.true;
+    expect(queryStub.lastCall.args[0]).to.include("WHERE ContentDocumentId IN ('069A','069B')");
+    expect(result).to.include({ documents: 2, versions: 3, totalBytes: 280 });
+    expect(result.byObjectType).to.deep.equal([
+      { name: 'User', files: 3, bytes: 280 },
+      { name: 'Account', files: 2, bytes: 250 },
+    ]);
+    expect(result.byYear).to.deep.equal([
+      { name: '2022', files: 1, bytes: 100 },
+      { name: '2024', files: 2, bytes: 180 },
+    ]);
+    expect(result.byFileType.map((group) => group.name)).to.deep.equal(['PDF', 'PNG']);
+    expect(result.topFiles.map((file) => [file.Id, file.OwnerName, file.ObjectTypes])).to.deep.equal([
+      ['068A2', 'Admin User', 'Account;User'],
+      ['068A1', 'Admin User', 'Account;User'],
+      ['068B1', null, 'User'],
+    ]);
+    expect(sfCommandStubs.log.calledWith('Files: 2 documents, 3 versions, Total size: 280 bytes')).to.be.true;
+    expect(sfCommandStubs.table.callCount).to.equal(4);
+  });
+
+  it('should write the largest files to a csv that fileops export can read', async () => {
+    await FileReport.run(['--top', '2', '--output-dir', outputDir, '--target-org', 'mockOrg']);
+
+    expect(fs.readFileSync(path.join(outputDir, 'top-files.csv'), 'utf8').split('\n')).to.deep.equal([
+      '"Id","ContentDocumentId","Title","FileExtension","FileType","ContentSize","CreatedDate","OwnerName","ObjectTypes"',
+      '"068A2","069A","Title 068A2","pdf","PDF",150,"2024-02-10T10:00:00.000+0000","Admin User","Account;User"',
+      '"068A1","069A","Title 068A1","pdf","PDF",100,"2022-01-10T10:00:00.000+0000","Admin User","Account;User"',
+    ]);
+    expect(fs.readFileSync(path.join(outputDir, 'size-by-year.csv'), 'utf8')).to.equal(
+      '"name","files","bytes"\n"2022",1,100\n"2024",2,180'
+    );
+    expect(fs.existsSync(path.join(outputDir, 'size-by-object-type.csv'))).to.be.true;
+    expect(fs.existsSync(path.join(outputDir, 'size-by-file-type.csv'))).to.be.true;
+  });
+
+  it('should write the whole report as json', async () => {
+    const result = await FileReport.run(['--output-dir', outputDir, '--format', 'json', '--target-org', 'mockOrg']);
+
+    expect(JSON.parse(fs.readFileSync(path.join(outputDir, 'report.json'), 'utf8'))).to.deep.equal(result);
+    expect(result.topFiles[0]).to.not.have.property('attributes');
+  });
+});
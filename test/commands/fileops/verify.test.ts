@@ -0,0 +1,73 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { Connection } from '@salesforce/core';
+import { TestContext } from '@salesforce/core/testSetup';
+import { expect } from 'chai';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import FileVerify from '../../../src/commands/fileops/verify.js';
+
+type QueryResult = Awaited<ReturnType<Connection['query']>>;
+
+describe('file verify', () => {
+  const $$ = new TestContext();
+  let sfCommandStubs: ReturnType<typeof stubSfCommandUx>;
+  let outputDir: string;
+
+  const md5 = (data: string): string => crypto.createHash('md5').update(data).digest('hex');
+
+  beforeEach(() => {
+    sfCommandStubs = stubSfCommandUx($$.SANDBOX);
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fileops-verify-'));
+  });
+
+  afterEach(() => {
+    $$.restore();
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('should report exported files that do not match the org', async () => {
+    fs.writeFileSync(
+      path.join(outputDir, 'fileops-manifest.csv'),
+      '"id","fileName","size","status"\n' +
+        '"068A","a.txt",5,"success"\n' +
+        '"068B","b.txt",5,"success"\n' +
+        '"068C","c.txt",5,"success"\n' +
+        '"068D","",0,"failed"\n'
+    );
+    fs.writeFileSync(path.join(outputDir, 'a.txt'), 'hello');
+    fs.writeFileSync(path.join(outputDir, 'b.txt'), 'hellp');
+    const queryStub = $$.SANDBOX.stub(Connection.prototype, 'query').resolves({
+      done: true,
+      totalSize: 3,
+      records: [
+        { Id: '068A', Checksum: md5('hello'), ContentSize: 5 },
+        { Id: '068B', Checksum: md5('hello'), ContentSize: 5 },
+        { Id: '068C', Checksum: md5('hello'), ContentSize: 5 },
+      ],
+    } as unknown as QueryResult);
+    const writeFileSyncStub = $$.SANDBOX.stub(fs, 'writeFileSync');
+
+    const result = await FileVerify.run(['--output-dir', outputDir, '--target-org', 'mockOrg']);
+
+    expect(queryStub.calledWithMatch("WHERE Id IN ('068A','068B','068C')")).to.be.true;
+    expect(result.total).to.equal(3);
+    expect(result.verified).to.equal(1);
+    expect(result.failures.map((failure) => [failure.id, failure.problem])).to.deep.equal([
+      ['068B', 'Checksum mismatch'],
+      ['068C', 'File is missing'],
+    ]);
+    expect(String(writeFileSyncStub.firstCall.args[0])).to.match(/^verify\d+\.csv$/);
+    expect(sfCommandStubs.log.calledWith('Verified 1 of 3 exported files.')).to.be.true;
+  });
+
+  it('should fail when the directory has no export manifest', async () => {
+    try {
+      await FileVerify.run(['--output-dir', outputDir, '--target-org', 'mockOrg']);
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect((error as Error).message).to.include('No export manifest found');
+    }
+  });
+});
@@ -0,0 +1,78 @@
+import { expect } from 'chai';
+import { AxiosError, AxiosResponse } from 'axios';
+import { AdaptiveLimit, parseConcurrency } from '../../src/shared/adaptiveLimit.js';
+
+describe('adaptive limit', () => {
+  let clock = 0;
+  const now = (): number => clock;
+
+  beforeEach(() => {
+    clock = 0;
+  });
+
+  async function runTasks(limit: AdaptiveLimit, count: number, durationMs: () => number): Promise<number> {
+    let running = 0;
+    let maxRunning = 0;
+    await Promise.all(
+      Array.from({ length: count }, () =>
+        limit.run(async () => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await Promise.resolve();
+          clock += durationMs();
+          running--;
+        })
+      )
+    );
+    return maxRunning;
+  }
+
+  it('should parse the concurrency flag', async () => {
+    const parse = parseConcurrency(10);
+    expect(await parse('auto')).to.equal('auto');
+    expect(await parse('4')).to.equal(4);
+    try {
+      await parse('11');
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect((error as Error).message).to.include('between 1 and 10');
+    }
+  });
+
+  it('should add concurrency while throughput improves', async () => {
+    const limit = new AdaptiveLimit(5, 2, now);
+
+    const maxRunning = await runTasks(limit, 40, () => 10 / limit.concurrency);
+
+    expect(limit.concurrency).to.equal(5);
+    expect(maxRunning).to.be.at.most(5);
+  });
+
+  it('should hold the concurrency when throughput stops improving', async () => {
+    const limit = new AdaptiveLimit(8, 2, now);
+
+    await runTasks(limit, 40, () => 10);
+
+    expect(limit.concurrency).to.equal(3);
+  });
+
+  it('should halve the concurrency when requests are throttled', () => {
+    const limit = new AdaptiveLimit(10, 8, now);
+    const throttled = new AxiosError('Too Many Requests', 'ERR_BAD_REQUEST', undefined, undefined, {
+      status: 429,
+      headers: {},
+    } as AxiosResponse);
+
+    limit.afterError(throttled);
+    limit.afterError(throttled);
+    expect(limit.concurrency).to.equal(4);
+
+    limit.afterError(
+      new AxiosError('Bad Request', 'ERR_BAD_REQUEST', undefined, undefined, {
+        status: 400,
+        headers: {},
+      } as AxiosResponse)
+    );
+    expect(limit.concurrency).to.equal(4);
+  });
+});
@@ -0,0 +1,39 @@
+import { expect } from 'chai';
+import { ApiBudget, ApiBudgetExhaustedError, parseLimitInfo, parseMaxApiCalls } from '../../src/shared/apiBudget.js';
+
+describe('api budget', () => {
+  it('should parse the api usage header', () => {
+    expect(parseLimitInfo('api-usage=25/15000')).to.deep.equal({ used: 25, limit: 15_000 });
+    expect(parseLimitInfo(undefined)).to.be.undefined;
+  });
+
+  it('should parse the maximum number of api calls', async () => {
+    expect(await parseMaxApiCalls('500')).to.equal(500);
+    const inputs = ['0', '1.5', 'many'];
+    const errors = await Promise.all(inputs.map((input) => parseMaxApiCalls(input).catch((err: Error) => err)));
+    errors.forEach((error, index) => {
+      expect(error)
+        .to.be.an('error')
+        .with.property('message', `Expected a number of at least 1, but received: ${inputs[index]}`);
+    });
+  });
+
+  it('should refuse requests once the maximum number of calls was made', () => {
+    const budget = new ApiBudget(2);
+    budget.beforeRequest();
+    budget.beforeRequest();
+
+    expect(budget.exhausted).to.be.true;
+    expect(() => budget.beforeRequest()).to.throw(ApiBudgetExhaustedError, 'all of the 2 API calls');
+    expect(budget.calls).to.equal(2);
+  });
+
+  it('should stop before the org runs out of daily api requests', () => {
+    const budget = new ApiBudget();
+    budget.afterResponse({ 'sforce-limit-info': 'api-usage=9000/10000' });
+    expect(budget.exhausted).to.be.false;
+
+    budget.afterResponse({ 'sforce-limit-info': 'api-usage=9500/10000' });
+    expect(budget.exhaustedReason).to.equal('the org has used 9500 of its 10000 daily API requests');
+  });
+});
@@ -0,0 +1,50 @@
+import { expect } from 'chai';
+import { Bin, BinPacker } from '../../src/shared/batchPacker.js';
+
+describe('batch packer', () => {
+  const identity = (size: number): number => size;
+  const packBins = <T>(items: T[], sizeOf: (item: T) => number, maxSize: number, maxItems: number): Array<Bin<T>> => {
+    const packer = new BinPacker(sizeOf, maxSize, maxItems);
+    return [...packer.add(items), ...packer.flush()];
+  };
+
+  it('should pack the largest items first into as few bins as possible', () => {
+    const bins = packBins([2, 5, 4, 3, 6, 1, 7], identity, 10, 10);
+
+    expect(bins.map((bin) => bin.items)).to.deep.equal([
+      [3, 7],
+      [4, 6],
+      [2, 5, 1],
+    ]);
+    expect(bins.map((bin) => bin.size)).to.deep.equal([10, 10, 8]);
+  });
+
+  it('should not put more than the maximum number of items in a bin', () => {
+    const bins = packBins([1, 1, 1, 1, 1], identity, 100, 2);
+
+    expect(bins.map((bin) => bin.items.length)).to.deep.equal([2, 2, 1]);
+  });
+
+  it('should give the same bins for the same items', () => {
+    const files = [
+      { name: 'a', size: 3 },
+      { name: 'b', size: 3 },
+      { name: 'c', size: 8 },
+      { name: 'd', size: 3 },
+    ];
+    const pack = (): string[][] =>
+      packBins(files, (file) => file.size, 10, 10).map((bin) => bin.items.map((file) => file.name));
+
+    expect(pack()).to.deep.equal([['c'], ['a', 'b', 'd']]);
+    expect(pack()).to.deep.equal(pack());
+  });
+
+  it('should hand out a bin as soon as it is full', () => {
+    const packer = new BinPacker(identity, 10, 2, 2);
+
+    expect(packer.add([4, 5, 3]).map((bin) => bin.items)).to.deep.equal([[4, 5]]);
+    // 8 fits in neither of the two open bins, so the fullest one is handed out to make room
+    expect(packer.add([9, 8]).map((bin) => bin.items)).to.deep.equal([[9]]);
+    expect(packer.flush().map((bin) => bin.items)).to.deep.equal([[3], [8]]);
+  });
+});
@@ -0,0 +1,48 @@
+import { Readable } from 'node:stream';
+import { expect } from 'chai';
+import { contentTypeFromFileName, detectContentType, readHead } from '../../src/shared/contentTypes.js';
+
+describe('content types', () => {
+  const pdf = Buffer.from('%PDF-1.7\n');
+  const zip = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00]);
+  const heic = Buffer.concat([Buffer.from([0, 0, 0, 0x18]), Buffer.from('ftypheic')]);
+
+  it('should know the content type of office, media and mail files by their extension', () => {
+    expect(contentTypeFromFileName('report.docx')).to.equal(
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    );
+    expect(contentTypeFromFileName('Budget.XLSX')).to.equal(
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    );
+    expect(contentTypeFromFileName('clip.mp4')).to.equal('video/mp4');
+    expect(contentTypeFromFileName('mail.eml')).to.equal('message/rfc822');
+    expect(contentTypeFromFileName('photo.heic')).to.equal('image/heic');
+    expect(contentTypeFromFileName('notes')).to.equal('application/octet-stream');
+  });
+
+  it('should recognise files with a missing or wrong extension by their first bytes', () => {
+    expect(detectContentType('scan', pdf)).to.equal('application/pdf');
+    expect(detectContentType('scan.txt', pdf)).to.equal('application/pdf');
+    expect(detectContentType('IMG_0001.jpg', heic)).to.equal('image/heic');
+    expect(detectContentType('archive', zip)).to.equal('application/zip');
+  });
+
+  it('should keep the extension for formats stored in a container', () => {
+    expect(detectContentType('report.docx', zip)).to.equal(
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    );
+    expect(detectContentType('report.docx', Buffer.from('unknown bytes'))).to.equal(
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    );
+  });
+
+  it('should read only the start of a stream', async () => {
+    const chunks = [Buffer.alloc(40, 1), Buffer.alloc(40, 2), Buffer.alloc(40, 3)];
+    const stream = Readable.from(chunks);
+
+    const head = await readHead(stream, 50);
+
+    expect(head).to.have.length(50);
+    expect(stream.destroyed).to.be.true;
+  });
+});
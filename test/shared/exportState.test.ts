@@ -0,0 +1,70 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { expect } from 'chai';
+import { ExportState, parseSince, toSoqlDateTime } from '../../src/shared/exportState.js';
+
+describe('export state', () => {
+  let outputDir: string;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fileops-state-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('should parse a since value to a SOQL datetime literal', async () => {
+    expect(await parseSince('2024-05-31')).to.equal('2024-05-31T00:00:00Z');
+    expect(await parseSince('2024-05-31T18:30:15.250+02:00')).to.equal('2024-05-31T16:30:15Z');
+    expect(await parseSince('last')).to.equal('last');
+    try {
+      await parseSince('yesterday');
+      expect.fail('expected an error');
+    } catch (error) {
+      expect((error as Error).message).to.include('but received: yesterday');
+    }
+  });
+
+  it('should move the mark to the latest version exported', () => {
+    const state = ExportState.load(outputDir);
+    expect(state.since).to.be.undefined;
+
+    state.exported('069A', '068A1', '2024-05-01T10:00:00.000+0000');
+    state.exported('069B', '068B1', '2024-05-01T11:30:00.500+0000');
+    state.save();
+
+    const next = ExportState.load(outputDir);
+    expect(next.since).to.equal('2024-05-01T11:30:00Z');
+    expect(next.versionOf('069B')).to.equal('068B1');
+  });
+
+  it('should keep the mark before the first version that was not exported', () => {
+    const state = ExportState.load(outputDir);
+    state.exported('069A', '068A1', '2024-05-01T10:00:00.000+0000');
+    state.failed('2024-05-01T11:00:00.000+0000');
+    state.exported('069C', '068C1', '2024-05-01T12:00:00.000+0000');
+
+    expect(state.nextSince()).to.equal('2024-05-01T10:00:00Z');
+  });
+
+  it('should find the mark among hundreds of thousands of versions', () => {
+    const state = ExportState.load(outputDir);
+    const start = Date.parse('2024-01-01T00:00:00.000Z');
+    for (let i = 0; i < 300_000; i++) {
+      state.exported(`069${i}`, `068${i}`, new Date(start + i * 1000).toISOString());
+    }
+    state.failed(new Date(start + 200_000 * 1000).toISOString());
+
+    expect(state.nextSince()).to.equal(toSoqlDateTime(new Date(start + 199_999 * 1000)));
+  });
+
+  it('should keep the previous mark when nothing was exported', () => {
+    fs.writeFileSync(path.join(outputDir, ExportState.FILE_NAME), JSON.stringify({ since: '2024-05-01T10:00:00Z' }));
+    const state = ExportState.load(outputDir);
+    state.failed('2024-05-02T10:00:00.000+0000');
+
+    expect(state.nextSince()).to.equal('2024-05-01T10:00:00Z');
+  });
+});
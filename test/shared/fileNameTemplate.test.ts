@@ -0,0 +1,64 @@
+import path from 'node:path';
+import { expect } from 'chai';
+import { FileNameTemplate } from '../../src/shared/fileNameTemplate.js';
+
+describe('file name template', () => {
+  const row = { Id: '068A', Title: 'Annual Report', FirstPublishLocationId: '001A' };
+
+  it('should replace placeholders with row values and the extension', () => {
+    const template = new FileNameTemplate('{Title}_{Id}.{ext}');
+    expect(template.render(row, 'pdf')).to.equal('Annual Report_068A.pdf');
+  });
+
+  it('should match placeholders to columns ignoring case', () => {
+    const template = new FileNameTemplate('{title}.{ext}');
+    expect(template.render(row, 'pdf')).to.equal('Annual Report.pdf');
+  });
+
+  it('should create subdirectories only for slashes in the template', () => {
+    const template = new FileNameTemplate('{FirstPublishLocationId}/{Title}.{ext}');
+    expect(template.render(row, 'pdf')).to.equal(path.join('001A', 'Annual Report.pdf'));
+    expect(template.render({ ...row, Title: 'Q1/Q2: "draft"' }, 'pdf')).to.equal(
+      path.join('001A', 'Q1_Q2_ _draft_.pdf')
+    );
+  });
+
+  it('should drop the trailing dot when there is no extension', () => {
+    const template = new FileNameTemplate('{Id}.{ext}');
+    expect(template.render(row, '')).to.equal('068A');
+  });
+
+  it('should sanitize names that are not allowed', () => {
+    expect(FileNameTemplate.sanitize('..')).to.equal('_');
+    expect(FileNameTemplate.sanitize('con.txt')).to.equal('_con.txt');
+    expect(FileNameTemplate.sanitize('a<b>c|d?e*f')).to.equal('a_b_c_d_e_f');
+  });
+
+  it('should fail for unknown fields', () => {
+    const template = new FileNameTemplate('{Name}.{ext}');
+    expect(() => template.render(row, 'pdf')).to.throw('Unknown field {Name}');
+  });
+
+  it('should add a suffix to names that were already claimed', () => {
+    const template = new FileNameTemplate('{Title}.{ext}');
+    expect(template.claim(row, 'pdf')).to.equal('Annual Report.pdf');
+    expect(template.claim({ ...row, Title: 'annual report' }, 'pdf')).to.equal('annual report_1.pdf');
+    expect(template.claim(row, 'pdf')).to.equal('Annual Report_2.pdf');
+  });
+
+  it('should claim the same name in every folder', () => {
+    const template = new FileNameTemplate('{Title}.{ext}');
+    template.reserve(path.join('001B', 'Annual Report.pdf'));
+    expect(template.claim(row, 'pdf', ['001A', '001B'])).to.equal('Annual Report_1.pdf');
+    expect(template.claim(row, 'pdf', ['001A'])).to.equal('Annual Report.pdf');
+  });
+
+  it('should claim a given name with a suffix when it is taken', () => {
+    const template = new FileNameTemplate('{Title}.{ext}');
+    expect(template.claim(row, 'pdf', ['001A', '001B'])).to.equal('Annual Report.pdf');
+    expect(template.claimName(path.join('001B', 'Annual Report.pdf'))).to.equal(
+      path.join('001B', 'Annual Report_1.pdf')
+    );
+    expect(template.claimName(path.join('001C', 'Annual Report.pdf'))).to.equal(path.join('001C', 'Annual Report.pdf'));
+  });
+});
@@ -0,0 +1,82 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { Connection } from '@salesforce/core';
+import { AxiosError, AxiosResponse } from 'axios';
+import { authorizedRequest, isSessionExpired, monitorRequests } from '../../src/shared/httpClient.js';
+import { ApiBudget, ApiBudgetExhaustedError } from '../../src/shared/apiBudget.js';
+
+function httpError(status: number, data?: unknown): AxiosError {
+  return new AxiosError('Request failed', 'ERR_BAD_REQUEST', undefined, undefined, {
+    status,
+    statusText: '',
+    headers: {},
+    data,
+  } as AxiosResponse);
+}
+
+describe('http client', () => {
+  let conn: Connection;
+  let refreshAuth: sinon.SinonStub;
+
+  beforeEach(() => {
+    const fakeConn = { accessToken: 'expired' };
+    refreshAuth = sinon.stub().callsFake(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      fakeConn.accessToken = 'fresh';
+    });
+    conn = Object.assign(fakeConn, { refreshAuth }) as unknown as Connection;
+  });
+
+  it('should detect an expired session', () => {
+    expect(isSessionExpired(httpError(401))).to.be.true;
+    expect(isSessionExpired(httpError(403, [{ errorCode: 'INVALID_SESSION_ID', message: '' }]))).to.be.true;
+    expect(isSessionExpired(httpError(403, [{ errorCode: 'INSUFFICIENT_ACCESS', message: '' }]))).to.be.false;
+    expect(isSessionExpired(new Error('socket hang up'))).to.be.false;
+  });
+
+  it('should refresh the token once for concurrent requests and send them again', async () => {
+    const send = sinon
+      .stub()
+      .callsFake((authorization: string) =>
+        authorization === 'Bearer fresh'
+          ? Promise.resolve({ data: 'ok' } as AxiosResponse<string>)
+          : Promise.reject(httpError(401))
+      );
+
+    const responses = await Promise.all([1, 2, 3].map(() => authorizedRequest<string>(conn, send)));
+
+    expect(responses.map((response) => response.data)).to.deep.equal(['ok', 'ok', 'ok']);
+    expect(refreshAuth.callCount).to.equal(1);
+    expect(send.callCount).to.equal(6);
+  });
+
+  it('should not refresh the token for other errors', async () => {
+    const send = sinon.stub().rejects(httpError(500));
+
+    try {
+      await authorizedRequest(conn, send);
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect((error as AxiosError).response?.status).to.equal(500);
+    }
+    expect(refreshAuth.called).to.be.false;
+    expect(send.callCount).to.equal(1);
+  });
+
+  it('should count the requests jsforce sends and read the api usage it reports', async () => {
+    const jsforceConn = { limitInfo: {} } as Connection;
+    const request = sinon.stub().callsFake(() => {
+      jsforceConn.limitInfo = { apiUsage: { used: 95, limit: 100 } };
+      return Promise.resolve({ done: true, records: [] });
+    });
+    jsforceConn.request = request as unknown as Connection['request'];
+    const budget = new ApiBudget(10);
+    monitorRequests(jsforceConn, budget);
+
+    await jsforceConn.request('/query?q=SELECT+Id+FROM+ContentVersion');
+
+    expect(budget.calls).to.equal(1);
+    expect(() => jsforceConn.request('/query/01g-2000')).to.throw(ApiBudgetExhaustedError);
+    expect(request.callCount).to.equal(1);
+  });
+});
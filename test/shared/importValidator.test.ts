@@ -0,0 +1,90 @@
+import { expect } from 'chai';
+import { Connection } from '@salesforce/core';
+import { ImportValidator } from '../../src/shared/importValidator.js';
+
+type Describe = Awaited<ReturnType<Connection['describe']>>;
+
+const describes: Record<string, unknown> = {
+  ContentVersion: {
+    fields: [
+      { name: 'Title', type: 'string', length: 255, createable: true },
+      { name: 'PathOnClient', type: 'string', length: 500, createable: true },
+      { name: 'Rating__c', type: 'double', length: 0, createable: true },
+      { name: 'Checksum', type: 'string', length: 50, createable: false },
+      {
+        name: 'FirstPublishLocationId',
+        type: 'reference',
+        length: 18,
+        createable: true,
+        relationshipName: 'FirstPublishLocation',
+        referenceTo: ['Account', 'Case'],
+      },
+      {
+        name: 'Contract__c',
+        type: 'reference',
+        length: 18,
+        createable: true,
+        relationshipName: 'Contract__r',
+        referenceTo: ['Contract'],
+      },
+    ],
+  },
+  Account: { fields: [{ name: 'External_Id__c', idLookup: true }] },
+  Contract: { fields: [{ name: 'ContractNumber', idLookup: true }, { name: 'Description' }] },
+};
+
+describe('import validator', () => {
+  const conn = {
+    describe: (objectName: string) =>
+      describes[objectName]
+        ? Promise.resolve(describes[objectName] as Describe)
+        : Promise.reject(new Error(`sObject type '${objectName}' is not supported.`)),
+  } as unknown as Connection;
+
+  it('should accept fields, lookups and link columns that can be set', async () => {
+    const validator = new ImportValidator(conn);
+    const problems = await validator.validateColumns([
+      'VersionData',
+      'title',
+      'Contract__r.ContractNumber',
+      'FirstPublishLocation:Account.External_Id__c',
+      'Link:Account.External_Id__c',
+    ]);
+
+    expect(problems).to.be.empty;
+  });
+
+  it('should report columns the import cannot set', async () => {
+    const validator = new ImportValidator(conn);
+    const problems = await validator.validateColumns([
+      'Missing__c',
+      'Checksum',
+      'Contract__r.Description',
+      'FirstPublishLocation.External_Id__c',
+      'FirstPublishLocation:Case.CaseNumber',
+      'Link:Nothing__c.Key__c',
+    ]);
+
+    expect(problems.map((p) => p.problem)).to.deep.equal([
+      'Unknown ContentVersion field Missing__c',
+      'ContentVersion field Checksum cannot be set',
+      'Contract.Description is not an idLookup field',
+      'FirstPublishLocation is polymorphic, name the parent object as FirstPublishLocation:<ParentObject>.External_Id__c',
+      'Unknown object Case',
+      'Unknown object Nothing__c',
+    ]);
+  });
+
+  it('should check the values of a row against the field types', async () => {
+    const validator = new ImportValidator(conn);
+    await validator.validateColumns(['Title', 'PathOnClient', 'Rating__c']);
+
+    // eslint-disable-next-line camelcase
+    expect(validator.validateValues({ Title: 'A', PathOnClient: 'a.pdf', Rating__c: '4.5' }, 2)).to.be.empty;
+    // eslint-disable-next-line camelcase
+    expect(validator.validateValues({ Title: '', PathOnClient: 'b.pdf', Rating__c: 'high' }, 3)).to.deep.equal([
+      { line: 3, column: 'Title', versionData: undefined, problem: 'Title is empty' },
+      { line: 3, column: 'Rating__c', versionData: undefined, problem: "'high' is not a valid double" },
+    ]);
+  });
+});
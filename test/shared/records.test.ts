@@ -0,0 +1,19 @@
+import { expect } from 'chai';
+import { idKey, inChunks, quote } from '../../src/shared/records.js';
+
+describe('records', () => {
+  it('should quote values for an IN list, escaping backslashes and quotes', () => {
+    expect(quote(['001A', "O'Brien", 'a\\b'])).to.equal("'001A','O\\'Brien','a\\\\b'");
+  });
+
+  it('should compare 15 and 18 character Ids of the same record equal', () => {
+    expect(idKey('001000000000001AAA')).to.equal(idKey('001000000000001'));
+  });
+
+  it('should split values into chunks of the given size', () => {
+    expect(inChunks([1, 2, 3, 4, 5], 2)).to.deep.equal([[1, 2], [3, 4], [5]]);
+    expect(inChunks(Array.from({ length: 450 }, (value, i) => i)).map((values) => values.length)).to.deep.equal([
+      200, 200, 50,
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { AxiosError, AxiosResponse } from 'axios';
+import { isRetryable, retryDelay, withRetry } from '../../src/shared/retry.js';
+
+function httpError(status: number, headers: Record<string, string> = {}, data?: unknown): AxiosError {
+  return new AxiosError('Request failed', 'ERR_BAD_RESPONSE', undefined, undefined, {
+    status,
+    statusText: '',
+    headers,
+    data,
+  } as AxiosResponse);
+}
+
+describe('retry', () => {
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('should tell transient errors from permanent ones', () => {
+    expect(isRetryable(httpError(503))).to.be.true;
+    expect(isRetryable(httpError(429))).to.be.true;
+    expect(isRetryable(httpError(403, {}, [{ errorCode: 'REQUEST_LIMIT_EXCEEDED', message: '' }]))).to.be.true;
+    expect(isRetryable(new AxiosError('timeout', 'ECONNABORTED'))).to.be.true;
+    expect(isRetryable(new Error('Stream error', { cause: Object.assign(new Error('reset'), { code: 'ECONNRESET' }) })))
+      .to.be.true;
+
+    expect(isRetryable(httpError(400, {}, [{ errorCode: 'INVALID_FIELD', message: '' }]))).to.be.false;
+    expect(isRetryable(httpError(404))).to.be.false;
+    expect(isRetryable(new Error('Missing ContentVersion ID'))).to.be.false;
+  });
+
+  it('should honour the Retry-After header', () => {
+    expect(retryDelay(1, httpError(503, { 'retry-after': '2' }), { maxRetries: 3 })).to.equal(2000);
+    expect(retryDelay(1, httpError(503, { 'retry-after': '86400' }), { maxRetries: 3 })).to.equal(300_000);
+    expect(retryDelay(1, httpError(503, { 'retry-after': '60' }), { maxRetries: 3, maxRetryAfterMs: 10_000 })).to.equal(
+      10_000
+    );
+  });
+
+  it('should back off exponentially with jitter', () => {
+    sinon.stub(Math, 'random').returns(0.5);
+    const options = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+    expect([1, 2, 3, 4, 5].map((attempt) => retryDelay(attempt, new Error(), options))).to.deep.equal([
+      50, 100, 200, 400, 500,
+    ]);
+  });
+
+  it('should retry transient errors until the operation succeeds', async () => {
+    const operation = sinon.stub();
+    operation.onFirstCall().rejects(httpError(503, { 'retry-after': '0' }));
+    operation.onSecondCall().resolves('done');
+
+    expect(await withRetry(operation, { maxRetries: 3 })).to.equal('done');
+    expect(operation.args).to.deep.equal([[1], [2]]);
+  });
+
+  it('should give up after the maximum number of retries', async () => {
+    const operation = sinon.stub().rejects(httpError(503, { 'retry-after': '0' }));
+    const onRetry = sinon.stub();
+
+    try {
+      await withRetry(operation, { maxRetries: 2, onRetry });
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect((error as AxiosError).response?.status).to.equal(503);
+    }
+    expect(operation.callCount).to.equal(3);
+    expect(onRetry.callCount).to.equal(2);
+  });
+
+  it('should not retry permanent errors', async () => {
+    const operation = sinon.stub().rejects(httpError(400));
+
+    try {
+      await withRetry(operation, { maxRetries: 3 });
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect((error as AxiosError).response?.status).to.equal(400);
+    }
+    expect(operation.callCount).to.equal(1);
+  });
+});
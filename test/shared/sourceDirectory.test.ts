@@ -0,0 +1,49 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { expect } from 'chai';
+import { SourceFileOptions, listSourceFiles } from '../../src/shared/sourceDirectory.js';
+
+describe('source directory', () => {
+  let directory: string;
+
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'fileops-source-'));
+    for (const file of ['b.pdf', 'a.txt', 'drafts/c.pdf', 'drafts/old/d.pdf', 'scans/e.png']) {
+      fs.mkdirSync(path.dirname(path.join(directory, file)), { recursive: true });
+      fs.writeFileSync(path.join(directory, file), file);
+    }
+  });
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const list = async (options: SourceFileOptions): Promise<string[]> => {
+    const files: string[] = [];
+    for await (const file of listSourceFiles(directory, options)) {
+      expect(file.path).to.equal(path.join(directory, file.relativePath));
+      files.push(file.relativePath);
+    }
+    return files;
+  };
+
+  it('should list only the top-level files in name order unless recursive', async () => {
+    expect(await list({ recursive: false })).to.deep.equal(['a.txt', 'b.pdf']);
+    expect(await list({ recursive: true })).to.deep.equal([
+      'a.txt',
+      'b.pdf',
+      'drafts/c.pdf',
+      'drafts/old/d.pdf',
+      'scans/e.png',
+    ]);
+  });
+
+  it('should filter the files with include and exclude globs', async () => {
+    expect(await list({ recursive: true, include: ['*.pdf'], exclude: ['drafts/old/**'] })).to.deep.equal([
+      'b.pdf',
+      'drafts/c.pdf',
+    ]);
+    expect(await list({ recursive: true, include: ['scans/*', 'a.*'] })).to.deep.equal(['a.txt', 'scans/e.png']);
+  });
+});
@@ -0,0 +1,64 @@
+import { expect } from 'chai';
+import { ReportVersion, StorageReport } from '../../src/shared/storageReport.js';
+
+describe('storage report', () => {
+  const version = (Id: string, ContentDocumentId: string, ContentSize: number, CreatedDate: string): ReportVersion => ({
+    Id,
+    ContentDocumentId,
+    Title: Id,
+    FileExtension: 'pdf',
+    FileType: 'PDF',
+    ContentSize,
+    CreatedDate,
+    OwnerName: 'Admin',
+  });
+
+  it('should add up every version of a file', () => {
+    const report = new StorageReport(10);
+    report.addVersion(version('068A1', '069A', 100, '2021-03-01T10:00:00.000+0000'));
+    report.addVersion(version('068A2', '069A', 150, '2023-03-01T10:00:00.000+0000'));
+    report.addVersion({ ...version('068B1', '069B', 50, '2023-05-01T10:00:00.000+0000'), FileType: null });
+
+    expect(report).to.include({ documents: 2, versions: 3, bytes: 300 });
+    expect(report.byYear()).to.deep.equal([
+      { name: '2021', files: 1, bytes: 100 },
+      { name: '2023', files: 2, bytes: 200 },
+    ]);
+    expect(report.byFileType()).to.deep.equal([
+      { name: 'PDF', files: 2, bytes: 250 },
+      { name: '(unknown)', files: 1, bytes: 50 },
+    ]);
+  });
+
+  it('should count a document once towards each object type it is linked to', () => {
+    const report = new StorageReport(10);
+    report.addVersion(version('068A1', '069A', 100, '2023-01-01'));
+    report.addVersion(version('068A2', '069A', 150, '2023-01-01'));
+    report.addVersion(version('068B1', '069B', 50, '2023-01-01'));
+    report.addLink('069A', 'User');
+    report.addLink('069A', 'Account');
+    report.addLink('069A', 'Account');
+    report.addLink('069B', 'User');
+    report.addLink('069C', 'Case');
+
+    expect(report.byObjectType()).to.deep.equal([
+      { name: 'User', files: 3, bytes: 300 },
+      { name: 'Account', files: 2, bytes: 250 },
+    ]);
+    expect(report.topFiles().map((file) => file.ObjectTypes)).to.deep.equal(['Account;User', 'Account;User', 'User']);
+  });
+
+  it('should keep the largest files, the first one added winning a tie', () => {
+    const report = new StorageReport(3);
+    [10, 40, 20, 40, 5, 30].forEach((size, index) =>
+      report.addVersion(version(`068${index}`, `069${index}`, size, ''))
+    );
+
+    expect(report.topFiles().map((file) => [file.Id, file.ContentSize])).to.deep.equal([
+      ['0681', 40],
+      ['0683', 40],
+      ['0685', 30],
+    ]);
+    expect(report.byYear()).to.deep.equal([{ name: '(unknown)', files: 6, bytes: 145 }]);
+  });
+});
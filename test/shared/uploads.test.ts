@@ -0,0 +1,109 @@
+import { expect } from 'chai';
+import { SaveResult } from '../../src/shared/contentVersions.js';
+import { Batch, SizedRow, packBatches, saveWithRetry, uploadBatches } from '../../src/shared/uploads.js';
+
+async function* sized(sizes: number[]): AsyncGenerator<SizedRow<string>> {
+  for (const [index, size] of sizes.entries()) {
+    yield { row: `file${index}`, size };
+  }
+}
+
+async function collect<T>(batches: AsyncIterable<Batch<T>>): Promise<Array<Batch<T>>> {
+  const collected: Array<Batch<T>> = [];
+  for await (const batch of batches) {
+    collected.push(batch);
+  }
+  return collected;
+}
+
+const saved = (id: string): SaveResult => ({ success: true, id, errors: [] });
+const failed = (statusCode: string): SaveResult => ({
+  success: false,
+  id: '',
+  errors: [{ message: statusCode, statusCode, fields: [] }],
+});
+
+describe('uploads', () => {
+  it('should send files larger than the batch size on their own', async () => {
+    const batches = await collect(packBatches(sized([4, 12, 5]), 10));
+
+    expect(batches).to.deep.equal([
+      { rows: ['file1'], single: true, size: 12 },
+      { rows: ['file0', 'file2'], single: false, size: 9 },
+    ]);
+  });
+
+  it('should upload every batch within the limit of queued batches', async () => {
+    const uploaded: string[][] = [];
+    let running = 0;
+    let maxRunning = 0;
+    const limit = <T>(task: () => Promise<T>): Promise<T> => task();
+
+    await uploadBatches(packBatches(sized([6, 6, 6, 6]), 10), limit, 2, async (batch) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setImmediate(resolve));
+      uploaded.push(batch.rows);
+      running--;
+    });
+
+    expect(uploaded).to.have.deep.members([['file0'], ['file1'], ['file2'], ['file3']]);
+    expect(maxRunning).to.be.at.most(2);
+  });
+
+  it('should finish the uploads already started before throwing the error of the batches', async () => {
+    const uploaded: string[][] = [];
+    const limit = <T>(task: () => Promise<T>): Promise<T> => task();
+    async function* failing(): AsyncGenerator<Batch<string>> {
+      yield { rows: ['file0'], single: false, size: 1 };
+      throw new Error('read failed');
+    }
+
+    try {
+      await uploadBatches(failing(), limit, 2, async (batch) => {
+        await new Promise((resolve) => setImmediate(resolve));
+        uploaded.push(batch.rows);
+      });
+      expect.fail('expected the uploads to fail');
+    } catch (error) {
+      expect((error as Error).message).to.equal('read failed');
+    }
+    expect(uploaded).to.deep.equal([['file0']]);
+  });
+
+  it('should send again only the rows that failed with a transient error', async () => {
+    const sent: string[][] = [];
+    const results = new Map<string, [boolean, number]>();
+
+    await saveWithRetry(
+      ['a', 'b', 'c'],
+      (pending) => {
+        sent.push(pending);
+        return Promise.resolve(
+          pending.map((row) => {
+            if (row === 'c') return failed('INVALID_FIELD');
+            return row === 'b' && sent.length === 1 ? failed('UNABLE_TO_LOCK_ROW') : saved(row);
+          })
+        );
+      },
+      { maxRetries: 2, baseDelayMs: 1 },
+      (row, result, attempt) => results.set(row, [result.success, attempt])
+    );
+
+    expect(sent).to.deep.equal([['a', 'b', 'c'], ['b']]);
+    expect(Object.fromEntries(results)).to.deep.equal({ a: [true, 1], b: [true, 2], c: [false, 1] });
+  });
+
+  it('should give up on a row once the retries are used up', async () => {
+    const results: Array<[string, string | undefined, number]> = [];
+
+    await saveWithRetry(
+      ['a'],
+      (pending) => Promise.resolve(pending.map(() => failed('UNABLE_TO_LOCK_ROW'))),
+      { maxRetries: 1, baseDelayMs: 1 },
+      (row, result, attempt) => results.push([row, result.errors[0]?.statusCode, attempt])
+    );
+
+    expect(results).to.deep.equal([['a', 'UNABLE_TO_LOCK_ROW', 2]]);
+  });
+});
@@ -0,0 +1,83 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { expect } from 'chai';
+import { ZipReader, ZipWriter } from '../../src/shared/zipArchive.js';
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+describe('zip archive', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'fileops-zip-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should read back the entries written to an archive', async () => {
+    const source = path.join(directory, 'source.txt');
+    fs.writeFileSync(source, 'x'.repeat(100_000));
+    const archivePath = path.join(directory, 'files.zip');
+
+    const writer = ZipWriter.create(archivePath);
+    await Promise.all([
+      writer.addData('files.csv', 'VersionData,Title\nACME/a.txt,A'),
+      writer.addFile('ACME/a.txt', source),
+      writer.addData('empty.txt', ''),
+    ]);
+    await writer.close();
+
+    const reader = await ZipReader.open(archivePath);
+    expect(reader.list().map((entry) => [entry.name, entry.size])).to.have.deep.members([
+      ['files.csv', 30],
+      ['ACME/a.txt', 100_000],
+      ['empty.txt', 0],
+    ]);
+    const entry = reader.get('ACME/a.txt');
+    expect(entry?.compressedSize).to.be.lessThan(1000);
+    expect(await readAll(reader.openEntry(entry!))).to.equal('x'.repeat(100_000));
+    expect(await readAll(reader.openEntry(reader.get('files.csv')!))).to.equal('VersionData,Title\nACME/a.txt,A');
+    expect(await readAll(reader.openEntry(reader.get('empty.txt')!))).to.equal('');
+    reader.close();
+  });
+
+  it('should keep writing the archive after an entry fails', async () => {
+    const archivePath = path.join(directory, 'files.zip');
+    const writer = ZipWriter.create(archivePath);
+
+    const missing = writer.addFile('missing.txt', path.join(directory, 'missing.txt')).then(
+      () => 'added',
+      (error: NodeJS.ErrnoException) => error.code
+    );
+    await writer.addData('present.txt', 'present');
+    expect(await missing).to.equal('ENOENT');
+    await writer.close();
+
+    const reader = await ZipReader.open(archivePath);
+    expect(reader.list().map((entry) => entry.name)).to.deep.equal(['present.txt']);
+    expect(await readAll(reader.openEntry(reader.get('present.txt')!))).to.equal('present');
+    reader.close();
+  });
+
+  it('should refuse a file that is not a zip archive', async () => {
+    const notZip = path.join(directory, 'files.csv');
+    fs.writeFileSync(notZip, 'VersionData,Title');
+
+    try {
+      await ZipReader.open(notZip);
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect((error as Error).message).to.match(/^End of central directory record signature not found/);
+    }
+  });
+});